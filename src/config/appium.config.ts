@@ -2,6 +2,8 @@
  * Appium server configuration and capability builders
  */
 
+import {getServerConfig} from './server.config';
+
 export interface AppiumServerConfig {
   hostname: string;
   port: number;
@@ -35,13 +37,14 @@ export interface AndroidCapabilityOptions {
 }
 
 /**
- * Get Appium server configuration from environment variables or defaults
+ * Get Appium server configuration from overrides or the server config (config file, environment variables)
  */
 export function getAppiumServerConfig(overrides?: Partial<AppiumServerConfig>): AppiumServerConfig {
+  const {appium} = getServerConfig();
   return {
-    hostname: overrides?.hostname || process.env.APPIUM_URL || '127.0.0.1',
-    port: overrides?.port || Number(process.env.APPIUM_URL_PORT) || 4723,
-    path: overrides?.path || process.env.APPIUM_PATH || '/',
+    hostname: overrides?.hostname || appium.hostname,
+    port: overrides?.port || appium.port,
+    path: overrides?.path || appium.path,
   };
 }
 
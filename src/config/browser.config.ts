@@ -0,0 +1,243 @@
+/**
+ * Remote WebDriver server configuration and browser capability builders for Chrome, Firefox and Edge
+ */
+
+import {DEFAULT_CHROMIUM_ARGS, getServerConfig} from './server.config';
+
+export type SupportedBrowser = 'chrome' | 'firefox' | 'edge';
+
+export interface WebDriverServerConfig {
+  protocol: 'http' | 'https';
+  hostname: string;
+  port: number;
+  path: string;
+}
+
+export interface DeviceEmulationOptions {
+  device?: DevicePreset;
+  deviceScaleFactor?: number;
+  userAgent?: string;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+}
+
+export interface ProxyOptions {
+  http?: string;
+  https?: string;
+  socks?: string;
+  socksVersion?: 4 | 5;
+  bypass?: string[];
+}
+
+export interface BrowserCapabilityOptions {
+  headless: boolean;
+  windowWidth: number;
+  windowHeight: number;
+  // Chrome/Edge command line arguments, in addition to window size, profile and headless ones
+  args?: string[];
+  userDataDir?: string;
+  emulation?: DeviceEmulationOptions;
+  proxy?: ProxyOptions;
+}
+
+interface DeviceDescriptor {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  userAgent: string;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+const IOS_17_SAFARI_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPADOS_17_SAFARI_UA = 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const androidChromeUA = (model: string) => `Mozilla/5.0 (Linux; Android 14; ${model}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36`;
+
+/**
+ * Device presets for Chromium mobile emulation (CSS pixel viewport sizes)
+ */
+export const DEVICE_PRESETS = {
+  'iPhone SE': {width: 375, height: 667, deviceScaleFactor: 2, userAgent: IOS_17_SAFARI_UA, isMobile: true, hasTouch: true},
+  'iPhone 15': {width: 393, height: 852, deviceScaleFactor: 3, userAgent: IOS_17_SAFARI_UA, isMobile: true, hasTouch: true},
+  'iPhone 15 Pro Max': {width: 430, height: 932, deviceScaleFactor: 3, userAgent: IOS_17_SAFARI_UA, isMobile: true, hasTouch: true},
+  'iPad Air': {width: 820, height: 1180, deviceScaleFactor: 2, userAgent: IPADOS_17_SAFARI_UA, isMobile: true, hasTouch: true},
+  'Pixel 7': {width: 412, height: 915, deviceScaleFactor: 2.625, userAgent: androidChromeUA('Pixel 7'), isMobile: true, hasTouch: true},
+  'Galaxy S23': {width: 360, height: 780, deviceScaleFactor: 3, userAgent: androidChromeUA('SM-S911B'), isMobile: true, hasTouch: true},
+  'Galaxy Tab S9': {width: 800, height: 1280, deviceScaleFactor: 2, userAgent: androidChromeUA('SM-X710'), isMobile: true, hasTouch: true},
+} satisfies Record<string, DeviceDescriptor>;
+
+export type DevicePreset = keyof typeof DEVICE_PRESETS;
+
+export const DEVICE_PRESET_NAMES = Object.keys(DEVICE_PRESETS) as [DevicePreset, ...DevicePreset[]];
+
+/**
+ * Get remote WebDriver server (e.g. Selenium Grid) configuration from overrides or the server config.
+ * Returns undefined when no hostname is configured, in which case a local driver is launched.
+ */
+export function getWebDriverServerConfig(overrides?: Partial<WebDriverServerConfig>): WebDriverServerConfig | undefined {
+  const {webdriver} = getServerConfig();
+  const hostname = overrides?.hostname || webdriver.hostname;
+  if (!hostname) {
+    return undefined;
+  }
+
+  return {
+    protocol: overrides?.protocol || webdriver.protocol,
+    hostname,
+    port: overrides?.port || webdriver.port,
+    path: overrides?.path || webdriver.path,
+  };
+}
+
+/**
+ * Whether any device emulation setting was requested
+ */
+export function hasDeviceEmulation(emulation?: DeviceEmulationOptions): boolean {
+  return !!emulation && Object.values(emulation).some((value) => value !== undefined);
+}
+
+/**
+ * Build the Chromium `mobileEmulation` option from a device preset and/or raw overrides.
+ * Without a preset the window size is used as the emulated viewport.
+ */
+function buildMobileEmulation(options: BrowserCapabilityOptions): Record<string, any> | undefined {
+  const {emulation} = options;
+  if (!hasDeviceEmulation(emulation)) {
+    return undefined;
+  }
+
+  const preset: Partial<DeviceDescriptor> = emulation.device ? DEVICE_PRESETS[emulation.device] : {};
+  const userAgent = emulation.userAgent ?? preset.userAgent;
+
+  return {
+    deviceMetrics: {
+      width: preset.width ?? options.windowWidth,
+      height: preset.height ?? options.windowHeight,
+      pixelRatio: emulation.deviceScaleFactor ?? preset.deviceScaleFactor ?? 1,
+      mobile: emulation.isMobile ?? preset.isMobile ?? true,
+      touch: emulation.hasTouch ?? preset.hasTouch ?? true,
+    },
+    ...(userAgent ? {userAgent} : {}),
+  };
+}
+
+/**
+ * Arguments shared by Chromium-based browsers (Chrome and Edge)
+ */
+function buildChromiumArgs(options: BrowserCapabilityOptions): string[] {
+  const args = [
+    `--window-size=${options.windowWidth},${options.windowHeight}`,
+    ...(options.args ?? DEFAULT_CHROMIUM_ARGS),
+  ];
+
+  // Reuse a persistent profile (logins, storage) instead of a fresh anonymous one
+  if (options.userDataDir) {
+    args.push(`--user-data-dir=${options.userDataDir}`);
+  }
+
+  // Add headless argument if enabled
+  if (options.headless) {
+    args.push('--headless=new');
+    args.push('--disable-gpu');
+    args.push('--disable-dev-shm-usage');
+  }
+
+  return args;
+}
+
+/**
+ * Build the W3C `proxy` capability (understood by chromedriver, geckodriver and msedgedriver)
+ */
+function buildProxyCapability(proxy?: ProxyOptions): Record<string, any> | undefined {
+  if (!proxy || !(proxy.http || proxy.https || proxy.socks)) {
+    return undefined;
+  }
+
+  const capability: Record<string, any> = {proxyType: 'manual'};
+  if (proxy.http) {
+    capability.httpProxy = proxy.http;
+  }
+  if (proxy.https) {
+    capability.sslProxy = proxy.https;
+  }
+  if (proxy.socks) {
+    capability.socksProxy = proxy.socks;
+    capability.socksVersion = proxy.socksVersion ?? 5;
+  }
+  if (proxy.bypass?.length) {
+    capability.noProxy = proxy.bypass;
+  }
+  return capability;
+}
+
+function withProxy(options: BrowserCapabilityOptions): Record<string, any> {
+  const proxy = buildProxyCapability(options.proxy);
+  return proxy ? {proxy} : {};
+}
+
+function withMobileEmulation(options: BrowserCapabilityOptions): Record<string, any> {
+  const mobileEmulation = buildMobileEmulation(options);
+  return mobileEmulation ? {mobileEmulation} : {};
+}
+
+/**
+ * Build capabilities for a browser session
+ */
+export function buildBrowserCapabilities(
+  browser: SupportedBrowser,
+  options: BrowserCapabilityOptions,
+): Record<string, any> {
+  switch (browser) {
+    case 'firefox': {
+      const args = [`--width=${options.windowWidth}`, `--height=${options.windowHeight}`];
+      if (options.headless) {
+        args.push('--headless');
+      }
+      if (options.userDataDir) {
+        args.push('-profile', options.userDataDir);
+      }
+      return {
+        browserName: 'firefox',
+        'moz:firefoxOptions': {
+          args,
+          prefs: {
+            // Equivalents of the Chromium fake media stream flags
+            'media.navigator.streams.fake': true,
+            'media.navigator.permission.disabled': true,
+          },
+        },
+        acceptInsecureCerts: true,
+        ...withProxy(options),
+      };
+    }
+    case 'edge':
+      return {
+        browserName: 'MicrosoftEdge',
+        'ms:edgeOptions': {
+          args: buildChromiumArgs(options),
+          ...withMobileEmulation(options),
+        },
+        acceptInsecureCerts: true,
+        ...withProxy(options),
+      };
+    case 'chrome':
+    default:
+      return {
+        browserName: 'chrome',
+        'goog:chromeOptions': {
+          args: buildChromiumArgs(options),
+          ...withMobileEmulation(options),
+        },
+        acceptInsecureCerts: true,
+        ...withProxy(options),
+      };
+  }
+}
+
+/**
+ * Whether a session runs on a Chromium-based browser (required for CDP/Puppeteer features)
+ */
+export function isChromiumBrowser(capabilities: Record<string, any>): boolean {
+  const browserName = String(capabilities?.browserName || '').toLowerCase();
+  return ['chrome', 'chromium', 'microsoftedge', 'msedge'].includes(browserName);
+}
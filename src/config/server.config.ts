@@ -0,0 +1,199 @@
+/**
+ * Server-wide defaults loaded from a config file (wdio-mcp.config.json/.js/.mjs, or .ts given with --config), environment variables and CLI flags
+ *
+ * Precedence: per-call tool arguments > CLI flags > environment variables > config file > built-in defaults
+ */
+
+import {existsSync} from 'node:fs';
+import {readFile} from 'node:fs/promises';
+import {resolve} from 'node:path';
+import {pathToFileURL} from 'node:url';
+import {z} from 'zod';
+
+export const OUTPUT_FORMATS = ['toon', 'json', 'markdown'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// TypeScript config files aren't discovered: plain Node.js can't import them, so they need --config and tsx
+export const CONFIG_FILE_NAMES = ['wdio-mcp.config.json', 'wdio-mcp.config.js', 'wdio-mcp.config.mjs'];
+
+export const DEFAULT_CHROMIUM_ARGS = [
+  '--no-sandbox',
+  '--disable-search-engine-choice-screen',
+  '--disable-infobars',
+  '--log-level=3',
+  '--use-fake-device-for-media-stream',
+  '--use-fake-ui-for-media-stream',
+  '--disable-web-security',
+  '--allow-running-insecure-content',
+];
+
+export const serverConfigSchema = z.object({
+  timeouts: z.object({
+    element: z.number().int().positive().default(3000).describe('Time to wait for elements in milliseconds (click, set_value, find_element, ...)'),
+    queue: z.number().int().positive().default(30000).describe('Time a tool call waits for a busy session in milliseconds before failing'),
+    idle: z.number().min(0).default(0).describe('Close sessions no tool call used for this many seconds. 0 disables it'),
+  }).strict().default({}),
+  browser: z.object({
+    browser: z.enum(['chrome', 'firefox', 'edge']).default('chrome'),
+    headless: z.boolean().default(false),
+    windowWidth: z.number().int().min(400).max(3840).default(1280),
+    windowHeight: z.number().int().min(400).max(2160).default(1080),
+    args: z.array(z.string()).default(DEFAULT_CHROMIUM_ARGS).describe('Command line arguments for Chrome and Edge'),
+  }).strict().default({}),
+  webdriver: z.object({
+    hostname: z.string().optional().describe('Remote WebDriver server (e.g. Selenium Grid). A local driver is launched if unset'),
+    port: z.number().int().positive().default(4444),
+    path: z.string().default('/'),
+    protocol: z.enum(['http', 'https']).default('http'),
+  }).strict().default({}),
+  appium: z.object({
+    hostname: z.string().default('127.0.0.1'),
+    port: z.number().int().positive().default(4723),
+    path: z.string().default('/'),
+  }).strict().default({}),
+  auditLog: z.object({
+    file: z.string().optional().describe('JSONL file every tool call is appended to. Disabled if unset'),
+    screenshotOnError: z.boolean().default(false).describe('Save a screenshot next to the log file when a tool call fails'),
+  }).strict().default({}),
+  secrets: z.object({
+    file: z.string().optional().describe('.env-style file with secrets set_value can enter by secretRef'),
+    env: z.array(z.string()).default([]).describe('Environment variables secretRef may read, besides those starting with WDIO_MCP_SECRET_'),
+  }).strict().default({}),
+  urlPolicy: z.object({
+    allow: z.array(z.string()).default([]).describe('Origins, URL globs or hosts that may be opened, for any scheme but about:blank. Everything is allowed if empty'),
+    deny: z.array(z.string()).default([]).describe('Origins, URL globs or hosts that may never be opened'),
+    blockedSchemes: z.array(z.string()).default([]).describe('URL schemes that may never be opened, e.g. ["file", "chrome", "javascript"]'),
+    blockPrivateNetworks: z.boolean().default(false).describe('Block localhost, private and link-local addresses'),
+  }).strict().default({}),
+  outputFormat: z.enum(OUTPUT_FORMATS).default('toon').describe('Default format of data-returning tools'),
+  tools: z
+    .union([z.string(), z.array(z.string())])
+    .transform((tools) => Array.isArray(tools) ? tools.join(',') : tools)
+    .default('all')
+    .describe('Tool selection: presets (web, mobile, all), tool names and -excluded tool names'),
+  readOnly: z.boolean().default(false).describe('Only register tools that observe state, plus non-destructive session management'),
+}).strict();
+
+export type ServerConfig = z.output<typeof serverConfigSchema>;
+export type ServerConfigInput = z.input<typeof serverConfigSchema>;
+
+let serverConfig: ServerConfig = serverConfigSchema.parse({});
+
+/**
+ * Current server configuration. Built-in defaults until loadServerConfig() runs.
+ */
+export const getServerConfig = (): ServerConfig => serverConfig;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Merge config layers; undefined values don't override lower layers
+ */
+const mergeConfig = (base: Record<string, any>, override: Record<string, any>): Record<string, any> => {
+  const merged = {...base};
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue;
+    }
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeConfig(merged[key], value) : value;
+  }
+  return merged;
+};
+
+const toNumber = (value?: string): number | undefined => value === undefined || value === '' ? undefined : Number(value);
+
+const toList = (value?: string): string[] | undefined => value ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+
+const toBoolean = (value?: string): boolean | undefined => value === undefined || value === '' ? undefined : value === 'true' || value === '1';
+
+/**
+ * Settings from the environment variables supported before the config file existed
+ */
+const getEnvironmentConfig = (): Record<string, any> => ({
+  timeouts: {
+    idle: toNumber(process.env.WDIO_MCP_IDLE_TIMEOUT),
+  },
+  webdriver: {
+    hostname: process.env.WEBDRIVER_URL || undefined,
+    port: toNumber(process.env.WEBDRIVER_URL_PORT),
+    path: process.env.WEBDRIVER_PATH || undefined,
+    protocol: process.env.WEBDRIVER_PROTOCOL || undefined,
+  },
+  appium: {
+    hostname: process.env.APPIUM_URL || undefined,
+    port: toNumber(process.env.APPIUM_URL_PORT),
+    path: process.env.APPIUM_PATH || undefined,
+  },
+  auditLog: {
+    file: process.env.WDIO_MCP_AUDIT_LOG || undefined,
+  },
+  secrets: {
+    file: process.env.WDIO_MCP_SECRETS_FILE || undefined,
+    env: toList(process.env.WDIO_MCP_SECRETS_ENV),
+  },
+  urlPolicy: {
+    allow: toList(process.env.WDIO_MCP_URL_ALLOW),
+    deny: toList(process.env.WDIO_MCP_URL_DENY),
+    blockedSchemes: toList(process.env.WDIO_MCP_BLOCKED_SCHEMES),
+    blockPrivateNetworks: toBoolean(process.env.WDIO_MCP_BLOCK_PRIVATE_NETWORKS),
+  },
+  tools: process.env.WDIO_MCP_TOOLS || undefined,
+  readOnly: toBoolean(process.env.WDIO_MCP_READ_ONLY),
+});
+
+const readConfigFile = async (filePath: string): Promise<unknown> => {
+  if (filePath.endsWith('.json')) {
+    return JSON.parse(await readFile(filePath, 'utf-8'));
+  }
+
+  try {
+    const module = await import(pathToFileURL(filePath).href);
+    return module.default ?? module;
+  } catch (e) {
+    if (filePath.endsWith('.ts') && e?.code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(`Cannot load ${filePath}: this Node.js version cannot import TypeScript files. Use wdio-mcp.config.json or run the server with tsx`);
+    }
+    throw e;
+  }
+};
+
+/**
+ * Find the config file: an explicit path, or the first of CONFIG_FILE_NAMES in the working directory
+ */
+const findConfigFile = (configPath?: string): string | undefined => {
+  if (configPath) {
+    const filePath = resolve(configPath);
+    if (!existsSync(filePath)) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+    return filePath;
+  }
+  return CONFIG_FILE_NAMES.map((name) => resolve(name)).find((filePath) => existsSync(filePath));
+};
+
+/**
+ * Load and validate the server configuration, then make it the current one.
+ * Throws with a list of invalid settings when validation fails.
+ */
+export async function loadServerConfig(options: {
+  configPath?: string;
+  cliOverrides?: Record<string, any>;
+} = {}): Promise<{ config: ServerConfig; filePath?: string }> {
+  const filePath = findConfigFile(options.configPath);
+  const fileConfig = filePath ? await readConfigFile(filePath) : {};
+  if (!isPlainObject(fileConfig)) {
+    throw new Error(`Invalid config file ${filePath}: expected an object`);
+  }
+
+  const merged = [getEnvironmentConfig(), options.cliOverrides ?? {}].reduce(mergeConfig, fileConfig);
+  const result = serverConfigSchema.safeParse(merged);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid server configuration${filePath ? ` (${filePath})` : ''}:\n${issues.join('\n')}`);
+  }
+
+  serverConfig = result.data;
+  return {config: serverConfig, filePath};
+}
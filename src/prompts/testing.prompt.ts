@@ -0,0 +1,165 @@
+/**
+ * Prompt templates for common testing workflows, chaining the server tools in a recommended order
+ */
+
+import {PromptCallback} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {GetPromptResult} from '@modelcontextprotocol/sdk/types.js';
+import {z} from 'zod';
+import {hasSecret} from '../utils/secrets';
+
+const promptResult = (description: string, lines: string[]): GetPromptResult => ({
+  description,
+  messages: [{
+    role: 'user',
+    content: {type: 'text', text: lines.filter((line) => line !== undefined).join('\n')},
+  }],
+});
+
+// Shared arguments selecting what to test: a web URL or a mobile app
+const targetArguments = {
+  url: z.string().optional().describe('URL of the web page to test'),
+  platform: z.string().optional().describe('Mobile platform ("iOS" or "Android") when testing an app'),
+  appBundleId: z.string().optional().describe('Bundle ID (iOS) or package name (Android) of an installed app to test'),
+  appPath: z.string().optional().describe('Path to the app file (.app/.apk/.ipa) to install and test'),
+  deviceName: z.string().optional().describe('Device/emulator/simulator name for mobile apps'),
+};
+
+type TargetArguments = {
+  url?: string;
+  platform?: string;
+  appBundleId?: string;
+  appPath?: string;
+  deviceName?: string;
+};
+
+/**
+ * Instruction for starting the right kind of session for the given target
+ */
+const startSessionStep = ({url, platform, appBundleId, appPath, deviceName}: TargetArguments): string => {
+  if (url) {
+    return `Call \`start_browser\` (headless: false) and then \`navigate\` to ${url}.`;
+  }
+
+  const app = appPath
+    ? `appPath: "${appPath}"`
+    : `noReset: true (the app ${appBundleId ? `"${appBundleId}" ` : ''}is already installed)`;
+  return `Call \`start_app_session\` with platform: "${platform || 'Android'}", deviceName: "${deviceName || '<ask the user>'}", ${app}.${appBundleId ? ` If the app is not in the foreground, call \`activate_app\` with bundleId "${appBundleId}".` : ''}`;
+};
+
+// Explore and Map Screen Prompt
+export const exploreAndMapScreenPromptArguments = {
+  ...targetArguments,
+  goal: z.string().optional().describe('What the screen map will be used for (e.g. "writing login tests")'),
+};
+
+export const exploreAndMapScreenPrompt: PromptCallback<typeof exploreAndMapScreenPromptArguments> = (args) =>
+  promptResult('Explore a screen and map its interactive elements', [
+    'You are a test automation engineer. Explore the current screen and produce a map of its interactive elements.',
+    args.goal ? `The map will be used for: ${args.goal}.` : undefined,
+    '',
+    'Steps:',
+    `1. ${startSessionStep(args)}`,
+    '2. Call `get_visible_elements` to list the interactive elements in the viewport.',
+    '3. Call `get_visible_elements` with inViewportOnly: false to find elements that need scrolling.',
+    args.url
+      ? '4. Call `get_accessibility` to add roles and accessible names.'
+      : '4. Call `get_contexts` to check for WEBVIEW contexts (hybrid app).',
+    '5. Call `take_screenshot` once to confirm the visual layout. Prefer element data over screenshots for everything else.',
+    '',
+    'Report a table with one row per element: purpose, element type, visible text/label, and the most robust selector',
+    '(prefer accessibility IDs, IDs or text selectors over index-based XPath). Group elements by screen region.',
+    'Do not click or type anything unless needed to reveal hidden content, and say when you did.',
+  ]);
+
+// Reproduce Bug From Steps Prompt
+export const reproduceBugFromStepsPromptArguments = {
+  ...targetArguments,
+  steps: z.string().describe('Steps to reproduce, one per line'),
+  expected: z.string().optional().describe('Expected behavior'),
+  actual: z.string().optional().describe('Actual (buggy) behavior reported'),
+};
+
+export const reproduceBugFromStepsPrompt: PromptCallback<typeof reproduceBugFromStepsPromptArguments> = (args) =>
+  promptResult('Reproduce a reported bug step by step', [
+    'You are a QA engineer reproducing a bug report. Follow the steps exactly and record evidence.',
+    '',
+    'Bug report:',
+    'Steps to reproduce:',
+    args.steps,
+    args.expected ? `Expected: ${args.expected}` : undefined,
+    args.actual ? `Actual: ${args.actual}` : undefined,
+    '',
+    'Procedure:',
+    `1. ${startSessionStep(args)}`,
+    '2. Before each step, call `get_visible_elements` to find the element to act on. Do not guess selectors.',
+    '3. Perform the step with `click_element`, `set_value` (web) or `tap_element`, `swipe` (mobile).',
+    '4. After each step, verify the outcome with `get_element_text` or `is_displayed`.',
+    '5. When the behavior deviates from the expected result, call `take_screenshot` to capture it.',
+    '',
+    'Finish with a report: reproduced yes/no, the exact step where behavior diverged, observed vs expected,',
+    'the selectors you used, and any differences between the report and what you saw.',
+  ]);
+
+// Smoke Test Login Prompt
+export const smokeTestLoginPromptArguments = {
+  ...targetArguments,
+  usernameEnvVar: z.string().describe('Name of the secrets file entry or WDIO_MCP_SECRET_* environment variable holding the username'),
+  passwordEnvVar: z.string().describe('Name of the secrets file entry or WDIO_MCP_SECRET_* environment variable holding the password'),
+  successIndicator: z.string().optional().describe('Text or element that proves the login succeeded (e.g. "Welcome back")'),
+};
+
+export const smokeTestLoginPrompt: PromptCallback<typeof smokeTestLoginPromptArguments> = async (args) => {
+  // Checked server-side; the values are only resolved by set_value, so they never reach the agent
+  const refs = [args.usernameEnvVar, args.passwordEnvVar];
+  const available = await Promise.all(refs.map((ref) => hasSecret(ref)));
+  const missing = refs.filter((_, index) => !available[index]);
+
+  if (missing.length > 0) {
+    return promptResult('Smoke test a login flow', [
+      `Tell the user that the secret(s) ${missing.join(', ')} are not set on the MCP server,`,
+      'so the login smoke test cannot run. Ask them to add them to the secrets file, or set them as WDIO_MCP_SECRET_* (or secrets.env listed) environment variables, and restart it.',
+    ]);
+  }
+
+  return promptResult('Smoke test a login flow', [
+    'You are running a login smoke test. Keep it short and deterministic.',
+    '',
+    'Steps:',
+    `1. ${startSessionStep(args)}`,
+    '2. Call `get_visible_elements` and identify the username field, password field and submit button.',
+    `3. Call \`set_value\` on the username field with secretRef: "${args.usernameEnvVar}"`,
+    `4. Call \`set_value\` on the password field with secretRef: "${args.passwordEnvVar}"`,
+    '   The server enters the credentials; you never see them. Do not guess or type them yourself.',
+    '5. Call `click_element` (web) or `tap_element` (mobile) on the submit button.',
+    args.successIndicator
+      ? `6. Verify the login succeeded: "${args.successIndicator}" must be displayed (use \`is_displayed\` or \`get_element_text\`).`
+      : '6. Call `get_visible_elements` and decide whether the post-login screen is shown.',
+    '7. Call `take_screenshot` of the final state.',
+    '',
+    'Report PASS or FAIL with the reason, the selectors used, and how long the flow took (number of steps).',
+  ]);
+};
+
+// Audit Form Accessibility Prompt
+export const auditFormAccessibilityPromptArguments = {
+  url: z.string().describe('URL of the page containing the form'),
+  formSelector: z.string().optional().describe('Selector of the form to audit (default: all forms on the page)'),
+};
+
+export const auditFormAccessibilityPrompt: PromptCallback<typeof auditFormAccessibilityPromptArguments> = (args) =>
+  promptResult('Audit the accessibility of a web form', [
+    `You are an accessibility specialist auditing ${args.formSelector ? `the form "${args.formSelector}"` : 'the forms'} on ${args.url}.`,
+    '',
+    'Steps:',
+    `1. Call \`start_browser\` (Chrome) and \`navigate\` to ${args.url}.`,
+    '2. Call `get_accessibility` to get roles, accessible names and states of all form controls.',
+    '3. Call `get_visible_elements` to match the controls to selectors and visible labels.',
+    '4. Check every field: it has an accessible name matching its visible label; required fields are marked',
+    '   as required; inputs have a fitting type; related controls (radios, checkboxes) are grouped.',
+    '5. Submit the form empty with `click_element` and call `get_accessibility` again: errors must be exposed',
+    '   (invalid state, described error text) and focus should move to the first error.',
+    '6. Call `take_screenshot` of the error state.',
+    '',
+    'Report each issue with: field, problem, WCAG success criterion (e.g. 1.3.1, 3.3.2, 4.1.2), severity and a suggested fix.',
+    'Do not enter real personal data into the form.',
+  ]);
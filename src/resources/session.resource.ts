@@ -0,0 +1,154 @@
+/**
+ * MCP resources exposing session state: the session list plus page source, screenshot,
+ * cookies and accessibility tree of each session
+ */
+
+import {McpServer, ResourceTemplate} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {getActiveSessionId, getBrowser, getSessionSummaries, runInSessionScope} from '../tools/browser.tool';
+import {getAccessibilityNodes} from '../tools/get-accessibility-tree.tool';
+import {getServerConfig} from '../config/server.config';
+import {acquireSessionLock} from '../utils/session-lock';
+import {redactSecrets} from '../utils/secrets';
+
+export const SESSION_LIST_URI = 'session://list';
+
+/**
+ * Per-session resources, addressed as session://{sessionId}/{path}
+ */
+const SESSION_RESOURCES: Array<{
+  path: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: (browser: WebdriverIO.Browser, uri: string) => Promise<ReadResourceResult>;
+}> = [
+  {
+    path: 'page-source',
+    name: 'Page source',
+    description: 'HTML source of the current page (web) or XML hierarchy of the current screen (mobile)',
+    mimeType: 'text/plain',
+    read: async (browser, uri) => ({
+      contents: [{uri, mimeType: browser.isMobile ? 'application/xml' : 'text/html', text: await browser.getPageSource()}],
+    }),
+  },
+  {
+    path: 'screenshot.png',
+    name: 'Screenshot',
+    description: 'Screenshot of the current page or screen',
+    mimeType: 'image/png',
+    read: async (browser, uri) => ({
+      contents: [{uri, mimeType: 'image/png', blob: await browser.takeScreenshot()}],
+    }),
+  },
+  {
+    path: 'cookies',
+    name: 'Cookies',
+    description: 'Cookies of the browser session',
+    mimeType: 'application/json',
+    read: async (browser, uri) => ({
+      contents: [{uri, mimeType: 'application/json', text: JSON.stringify(await browser.getCookies(), null, 2)}],
+    }),
+  },
+  {
+    path: 'accessibility',
+    name: 'Accessibility tree',
+    description: 'Flattened accessibility tree of the current page (Chrome and Edge only)',
+    mimeType: 'application/json',
+    read: async (browser, uri) => {
+      const {nodes, message} = await getAccessibilityNodes(browser);
+      return {
+        contents: [{uri, mimeType: 'application/json', text: JSON.stringify(nodes ?? {message}, null, 2)}],
+      };
+    },
+  },
+];
+
+const sessionResourceUri = (sessionId: string, path: string) => `session://${sessionId}/${path}`;
+
+export interface SessionResourceNotifier {
+  // Notify subscribers that the resources of a session changed (e.g. after navigation or an action)
+  notifyUpdated(sessionId: string): void;
+  // Notify the client that sessions were started or closed
+  notifyListChanged(): void;
+}
+
+/**
+ * Register the session resources on a server and handle resource subscriptions for its connection
+ */
+export function registerSessionResources(server: McpServer): SessionResourceNotifier {
+  const subscriptions = new Set<string>();
+
+  server.resource('sessions', SESSION_LIST_URI, {
+    description: 'Active browser and app sessions with their type, capabilities and current URL or context',
+    mimeType: 'application/json',
+  }, async (uri, extra) => runInSessionScope(extra, undefined, async () => ({
+    contents: [{uri: uri.href, mimeType: 'application/json', text: redactSecrets(JSON.stringify(await getSessionSummaries(), null, 2))}],
+  })));
+
+  for (const resource of SESSION_RESOURCES) {
+    const template = new ResourceTemplate(`session://{sessionId}/${resource.path}`, {
+      list: async (extra) => runInSessionScope(extra, undefined, async () => ({
+        resources: (await getSessionSummaries()).map((session) => ({
+          uri: sessionResourceUri(session.sessionId, resource.path),
+          name: `${resource.name} (${session.type} ${session.sessionId})`,
+          mimeType: resource.mimeType,
+        })),
+      })),
+    });
+
+    server.resource(resource.name, template, {
+      description: resource.description,
+      mimeType: resource.mimeType,
+    }, async (uri, variables, extra) => runInSessionScope(extra, String(variables.sessionId), async () => {
+      const browser = getBrowser();
+      // Queued like tool calls, so reads never run in the middle of e.g. a swipe
+      const release = await acquireSessionLock(getActiveSessionId(), getServerConfig().timeouts.queue);
+      try {
+        const result = await resource.read(browser, uri.href);
+        // Like tool output, text contents never show known secret values
+        return {
+          ...result,
+          contents: result.contents.map((content) => typeof content.text === 'string' ? {...content, text: redactSecrets(content.text)} : content),
+        };
+      } finally {
+        release();
+      }
+    }));
+  }
+
+  server.server.registerCapabilities({resources: {subscribe: true, listChanged: true}});
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const sendUpdated = (uri: string) => {
+    if (subscriptions.has(uri) && server.isConnected()) {
+      server.server.sendResourceUpdated({uri}).catch((e) => console.error(`Failed to notify resource update for ${uri}:`, e));
+    }
+  };
+
+  return {
+    notifyUpdated: (sessionId) => {
+      for (const resource of SESSION_RESOURCES) {
+        sendUpdated(sessionResourceUri(sessionId, resource.path));
+      }
+      sendUpdated(SESSION_LIST_URI);
+    },
+    notifyListChanged: () => {
+      if (server.isConnected()) {
+        server.sendResourceListChanged();
+      }
+      sendUpdated(SESSION_LIST_URI);
+    },
+  };
+}
@@ -1,67 +1,34 @@
 #!/usr/bin/env node
 
-import {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {McpServer, ToolCallback} from '@modelcontextprotocol/sdk/server/mcp.js';
 import {StdioServerTransport} from '@modelcontextprotocol/sdk/server/stdio.js';
-import {closeSessionTool, closeSessionToolArguments, startBrowserTool, startBrowserToolArguments} from './tools/browser.tool';
-import {navigateTool, navigateToolArguments} from './tools/navigate.tool';
-import {clickTool, clickToolArguments, clickToolViaText} from './tools/click.tool';
-import {setValueTool, setValueToolArguments} from './tools/set-value.tool';
-import {findElementTool, findElementToolArguments} from './tools/find-element.tool';
-import {getElementTextTool, getElementTextToolArguments} from './tools/get-element-text.tool';
-import {isDisplayedTool, isDisplayedToolArguments} from './tools/is-displayed.tool';
-import {scrollDownTool, scrollDownToolArguments} from './tools/scroll-down.tool';
-import {scrollUpTool, scrollUpToolArguments} from './tools/scroll-up.tool';
-import {getVisibleElementsTool, getVisibleElementsToolArguments} from './tools/get-visible-elements.tool';
-import {takeScreenshotTool, takeScreenshotToolArguments} from './tools/take-screenshot.tool';
+import {parseArgs} from 'node:util';
+import {startHttpTransport} from './transports/http.transport';
+import {registerSessionResources} from './resources/session.resource';
 import {
-  deleteCookiesTool,
-  deleteCookiesToolArguments,
-  getCookiesTool,
-  getCookiesToolArguments,
-  setCookieTool,
-  setCookieToolArguments,
-} from './tools/cookies.tool';
-import {getAccessibilityTreeTool} from './tools/get-accessibility-tree.tool';
-import {startAppTool, startAppToolArguments} from './tools/app-session.tool';
+  auditFormAccessibilityPrompt,
+  auditFormAccessibilityPromptArguments,
+  exploreAndMapScreenPrompt,
+  exploreAndMapScreenPromptArguments,
+  reproduceBugFromStepsPrompt,
+  reproduceBugFromStepsPromptArguments,
+  smokeTestLoginPrompt,
+  smokeTestLoginPromptArguments,
+} from './prompts/testing.prompt';
 import {
-  dragAndDropTool,
-  dragAndDropToolArguments,
-  longPressTool,
-  longPressToolArguments,
-  swipeTool,
-  swipeToolArguments,
-  tapElementTool,
-  tapElementToolArguments,
-} from './tools/gestures.tool';
-import {
-  activateAppTool,
-  activateAppToolArguments,
-  getAppStateTool,
-  getAppStateToolArguments,
-  terminateAppTool,
-  terminateAppToolArguments,
-} from './tools/app-actions.tool';
-import {getContextsTool, getCurrentContextTool, switchContextTool, switchContextToolArguments} from './tools/context.tool';
-import {
-  getDeviceInfoTool,
-  getGeolocationTool,
-  getOrientationTool,
-  hideKeyboardTool,
-  isDeviceLockedTool,
-  isKeyboardShownTool,
-  lockDeviceTool,
-  openNotificationsTool,
-  pressKeyCodeTool,
-  pressKeyCodeToolArguments,
-  rotateDeviceTool,
-  rotateDeviceToolArguments,
-  sendKeysTool,
-  sendKeysToolArguments,
-  setGeolocationTool,
-  setGeolocationToolArguments,
-  shakeDeviceTool,
-  unlockDeviceTool,
-} from './tools/device.tool';
+  closeAllSessions,
+  getActiveSessionId,
+  sessionIdArgument,
+  startIdleSessionReaper,
+  withNamespace,
+  withSession,
+} from './tools/browser.tool';
+import {getToolAnnotations, selectTools, ToolDefinition} from './tools/registry';
+import {loadServerConfig} from './config/server.config';
+import {withActionLog, withErrorScreenshot} from './utils/action-log';
+import {withSessionLock} from './utils/session-lock';
+import {withUrlPolicy} from './utils/url-policy';
+import {withSecretRedaction} from './utils/secrets';
 
 // IMPORTANT: Redirect all console output to stderr to avoid messing with MCP protocol (Chrome writes to console)
 const originalConsoleLog = console.log;
@@ -74,78 +41,199 @@ console.info = (...args) => console.error('[INFO]', ...args);
 console.warn = (...args) => console.error('[WARN]', ...args);
 console.debug = (...args) => console.error('[DEBUG]', ...args);
 
-const server = new McpServer({
-  name: 'MCP WebdriverIO',
-  version: '1.4.0',
-}, {
-  capabilities: {
-    resources: {},
-    tools: {},
-  },
-});
+/**
+ * Create an MCP server with the given tools registered. Each client connection gets its own server instance.
+ */
+function createServer(tools: ToolDefinition[]): McpServer {
+  const server = new McpServer({
+    name: 'MCP WebdriverIO',
+    version: '1.4.0',
+  }, {
+    capabilities: {
+      prompts: {},
+      resources: {},
+      tools: {},
+    },
+  });
+
+  const resources = registerSessionResources(server);
+
+  // Notify resource subscribers once a tool call that changes session state completes
+  const withResourceNotifications = (callback: ToolCallback<any>, {readOnly, sessionsChanged}: ToolDefinition): ToolCallback<any> =>
+    async (args: any, extra: any) => {
+      const sessionId = getActiveSessionId();
+      const result = await callback(args, extra);
+      if (sessionsChanged) {
+        resources.notifyListChanged();
+      } else if (!readOnly && (getActiveSessionId() ?? sessionId)) {
+        resources.notifyUpdated(getActiveSessionId() ?? sessionId);
+      }
+      return result;
+    };
+
+  // Session tools queue behind other calls of their session; tools that don't act on one session never wait
+  const withLocking = (tool: ToolDefinition): ToolCallback<any> => {
+    if (tool.concurrent) {
+      return tool.callback;
+    }
+    const callback = withUrlPolicy(tool.callback);
+    return tool.session ? withSessionLock(withErrorScreenshot(tool.name, callback)) : callback;
+  };
+
+  for (const tool of tools) {
+    const callback = withResourceNotifications(
+      withActionLog(tool.name, withSecretRedaction(withLocking(tool))),
+      tool,
+    );
+    const {name, description, outputSchema} = tool;
+    const annotations = getToolAnnotations(tool);
+    if (tool.session) {
+      // Session tools run against the session given by the optional sessionId argument, or the current one
+      server.registerTool(name, {description, inputSchema: {...tool.args, ...sessionIdArgument}, outputSchema, annotations}, withSession(callback));
+    } else {
+      // Other tools run in the session namespace of the calling connection
+      server.registerTool(name, {description, inputSchema: tool.args, outputSchema, annotations}, withNamespace(callback));
+    }
+  }
+
+  // Testing Workflow Prompts
+  server.prompt('explore_and_map_screen', 'explores a web page or app screen and maps its interactive elements and selectors', exploreAndMapScreenPromptArguments, exploreAndMapScreenPrompt);
+  server.prompt('reproduce_bug_from_steps', 'reproduces a bug report step by step and collects evidence', reproduceBugFromStepsPromptArguments, reproduceBugFromStepsPrompt);
+  server.prompt('smoke_test_login', 'runs a login smoke test with credentials taken from server environment variables', smokeTestLoginPromptArguments, smokeTestLoginPrompt);
+  server.prompt('audit_form_accessibility', 'audits the accessibility of a web form (labels, required state, error handling)', auditFormAccessibilityPromptArguments, auditFormAccessibilityPrompt);
+
+  return server;
+}
+
+const SHUTDOWN_TIMEOUT = 10000;
+let shuttingDown = false;
+
+/**
+ * Close (or detach from) all sessions before exiting, so Chrome processes and Appium sessions don't leak
+ */
+async function shutdown(reason: string) {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  console.error(`Shutting down (${reason})...`);
+
+  const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), SHUTDOWN_TIMEOUT).unref());
+  const summary = await Promise.race([closeAllSessions(), timeout]);
+
+  if (summary) {
+    console.error(`Sessions closed: ${summary.closed.length}, detached: ${summary.detached.length}, failed: ${summary.failed.length}`);
+    for (const failure of summary.failed) {
+      console.error(`  Failed to close session ${failure}`);
+    }
+  } else {
+    console.error(`Timed out after ${SHUTDOWN_TIMEOUT}ms while closing sessions`);
+  }
+  process.exit(0);
+}
+
+/**
+ * Close (or detach from) the sessions of a client connection that went away
+ */
+async function releaseConnectionSessions(namespace: string) {
+  const summary = await closeAllSessions(namespace);
+  const count = summary.closed.length + summary.detached.length + summary.failed.length;
+  if (count > 0) {
+    console.error(`Connection ${namespace} closed: ${summary.closed.length} sessions closed, ${summary.detached.length} detached, ${summary.failed.length} failed`);
+  }
+}
 
-// Browser and App Session Management
-server.tool('start_browser', 'starts a browser session and sets it to the current state', startBrowserToolArguments, startBrowserTool);
-server.tool('start_app_session', 'starts a mobile app session (iOS/Android) via Appium', startAppToolArguments, startAppTool);
-server.tool('close_session', 'closes or detaches from the current browser or app session', closeSessionToolArguments, closeSessionTool);
-server.tool('navigate', 'navigates to a URL', navigateToolArguments, navigateTool);
-
-server.tool('get_visible_elements', 'get a list of visible (in viewport & displayed) elements on the page, must prefer this to take_screenshot for interactions', getVisibleElementsToolArguments, getVisibleElementsTool);
-server.tool('get_accessibility', 'gets accessibility tree snapshot with semantic information about page elements (roles, names, states)', {}, getAccessibilityTreeTool);
-
-server.tool('scroll_down', 'scrolls the page down by specified pixels', scrollDownToolArguments, scrollDownTool);
-server.tool('scroll_up', 'scrolls the page up by specified pixels', scrollUpToolArguments, scrollUpTool);
-
-server.tool('find_element', 'finds an element', findElementToolArguments, findElementTool);
-server.tool('click_element', 'clicks an element', clickToolArguments, clickTool);
-server.tool('click_via_text', 'clicks an element', clickToolArguments, clickToolViaText);
-server.tool('set_value', 'set value to an element, aka typing', setValueToolArguments, setValueTool);
-
-server.tool('get_element_text', 'gets the text content of an element', getElementTextToolArguments, getElementTextTool);
-server.tool('is_displayed', 'checks if an element is displayed', isDisplayedToolArguments, isDisplayedTool);
-
-server.tool('take_screenshot', 'captures a screenshot of the current page', takeScreenshotToolArguments, takeScreenshotTool);
-
-server.tool('get_cookies', 'gets all cookies or a specific cookie by name', getCookiesToolArguments, getCookiesTool);
-server.tool('set_cookie', 'sets a cookie with specified name, value, and optional attributes', setCookieToolArguments, setCookieTool);
-server.tool('delete_cookies', 'deletes all cookies or a specific cookie by name', deleteCookiesToolArguments, deleteCookiesTool);
-
-// Mobile Gesture Tools
-server.tool('tap_element', 'taps an element by selector or coordinates (mobile)', tapElementToolArguments, tapElementTool);
-server.tool('swipe', 'performs a swipe gesture in specified direction (mobile)', swipeToolArguments, swipeTool);
-server.tool('long_press', 'performs a long press on element or coordinates (mobile)', longPressToolArguments, longPressTool);
-server.tool('drag_and_drop', 'drags from one location to another (mobile)', dragAndDropToolArguments, dragAndDropTool);
-
-// App Lifecycle Management
-server.tool('get_app_state', 'gets the state of an app (not installed, not running, background, foreground)', getAppStateToolArguments, getAppStateTool);
-server.tool('activate_app', 'activates/brings an app to foreground', activateAppToolArguments, activateAppTool);
-server.tool('terminate_app', 'terminates a running app', terminateAppToolArguments, terminateAppTool);
-
-// Context Switching (Native/WebView)
-server.tool('get_contexts', 'lists available contexts (NATIVE_APP, WEBVIEW)', {}, getContextsTool);
-server.tool('get_current_context', 'shows the currently active context', {}, getCurrentContextTool);
-server.tool('switch_context', 'switches between native and webview contexts', switchContextToolArguments, switchContextTool);
-
-// Device Interaction
-server.tool('get_device_info', 'gets device information (platform, version, screen size)', {}, getDeviceInfoTool);
-server.tool('rotate_device', 'rotates device to portrait or landscape orientation', rotateDeviceToolArguments, rotateDeviceTool);
-server.tool('get_orientation', 'gets current device orientation', {}, getOrientationTool);
-server.tool('lock_device', 'locks the device screen', {}, lockDeviceTool);
-server.tool('unlock_device', 'unlocks the device screen', {}, unlockDeviceTool);
-server.tool('is_device_locked', 'checks if device is locked', {}, isDeviceLockedTool);
-server.tool('shake_device', 'shakes the device (iOS only)', {}, shakeDeviceTool);
-server.tool('send_keys', 'sends keys to the app (Android only)', sendKeysToolArguments, sendKeysTool);
-server.tool('press_key_code', 'presses an Android key code (Android only)', pressKeyCodeToolArguments, pressKeyCodeTool);
-server.tool('hide_keyboard', 'hides the on-screen keyboard', {}, hideKeyboardTool);
-server.tool('is_keyboard_shown', 'checks if keyboard is visible', {}, isKeyboardShownTool);
-server.tool('open_notifications', 'opens the notifications panel (Android only)', {}, openNotificationsTool);
-server.tool('get_geolocation', 'gets current device geolocation', {}, getGeolocationTool);
-server.tool('set_geolocation', 'sets device geolocation (latitude, longitude, altitude)', setGeolocationToolArguments, setGeolocationTool);
+const toNumber = (value?: string): number | undefined => value === undefined ? undefined : Number(value);
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('WebdriverIO MCP Server running on stdio');
+  const {values} = parseArgs({
+    options: {
+      transport: {type: 'string', default: 'stdio'},
+      port: {type: 'string', default: '3000'},
+      host: {type: 'string', default: '127.0.0.1'},
+      'allowed-host': {type: 'string', multiple: true},
+      config: {type: 'string'},
+      tools: {type: 'string'},
+      timeout: {type: 'string'},
+      'idle-timeout': {type: 'string'},
+      browser: {type: 'string'},
+      headless: {type: 'boolean'},
+      'window-width': {type: 'string'},
+      'window-height': {type: 'string'},
+      'appium-host': {type: 'string'},
+      'appium-port': {type: 'string'},
+      'appium-path': {type: 'string'},
+      'output-format': {type: 'string'},
+      'audit-log': {type: 'string'},
+      'allow-url': {type: 'string', multiple: true},
+      'deny-url': {type: 'string', multiple: true},
+      'block-scheme': {type: 'string', multiple: true},
+      'block-private-networks': {type: 'boolean'},
+      'read-only': {type: 'boolean'},
+      'secrets-file': {type: 'string'},
+      'secret-env': {type: 'string', multiple: true},
+    },
+  });
+
+  const {config, filePath} = await loadServerConfig({
+    configPath: values.config,
+    cliOverrides: {
+      timeouts: {element: toNumber(values.timeout), idle: toNumber(values['idle-timeout'])},
+      browser: {
+        browser: values.browser,
+        headless: values.headless,
+        windowWidth: toNumber(values['window-width']),
+        windowHeight: toNumber(values['window-height']),
+      },
+      appium: {
+        hostname: values['appium-host'],
+        port: toNumber(values['appium-port']),
+        path: values['appium-path'],
+      },
+      auditLog: {file: values['audit-log']},
+      secrets: {file: values['secrets-file'], env: values['secret-env']},
+      urlPolicy: {
+        allow: values['allow-url'],
+        deny: values['deny-url'],
+        blockedSchemes: values['block-scheme'],
+        blockPrivateNetworks: values['block-private-networks'],
+      },
+      outputFormat: values['output-format'],
+      tools: values.tools,
+      readOnly: values['read-only'],
+    },
+  });
+  if (filePath) {
+    console.error(`Loaded config from ${filePath}`);
+  }
+
+  const tools = selectTools(config.tools, {readOnly: config.readOnly});
+  console.error(`Enabled tools: ${tools.length}${config.readOnly ? ' (read-only mode)' : ''}`);
+
+  if (values.transport === 'http') {
+    const port = Number(values.port);
+    await startHttpTransport(() => createServer(tools), {
+      port,
+      host: values.host,
+      allowedHosts: values['allowed-host'],
+      onConnectionClosed: (namespace) => {
+        releaseConnectionSessions(namespace).catch((error) => console.error('Failed to release connection sessions:', error));
+      },
+    });
+    console.error(`WebdriverIO MCP Server running on http://${values.host}:${port}/mcp (SSE fallback: /sse)`);
+  } else if (values.transport === 'stdio') {
+    await createServer(tools).connect(new StdioServerTransport());
+    console.error('WebdriverIO MCP Server running on stdio');
+    // The client closing stdin means it's gone (e.g. Claude Desktop quit)
+    process.stdin.on('close', () => shutdown('stdin closed'));
+  } else {
+    throw new Error(`Unknown transport "${values.transport}". Use "stdio" or "http"`);
+  }
+
+  startIdleSessionReaper();
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
 }
 
 main().catch((error) => {
@@ -0,0 +1,54 @@
+import {z} from 'zod';
+import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {CallToolResult} from '@modelcontextprotocol/sdk/types';
+import {getActiveSessionId} from './browser.tool';
+import {getActionLogEntries} from '../utils/action-log';
+import {dataResult, outputFormatArgument} from '../utils/output-format';
+import {errorOutput, errorResult, ToolError} from '../utils/tool-result';
+import {OutputFormat} from '../config/server.config';
+
+export const getActionLogToolArguments = {
+  limit: z.number().int().min(1).max(500).optional().describe('Number of most recent entries to return. Default: 20'),
+  ...outputFormatArgument,
+};
+
+export const getActionLogToolOutput = {
+  entries: z
+    .array(z.object({
+      timestamp: z.string(),
+      sessionId: z.string().nullable(),
+      tool: z.string(),
+      args: z.record(z.any()),
+      durationMs: z.number(),
+      queuedMs: z.number(),
+      status: z.enum(['success', 'error']),
+      error: z.object({code: z.string(), message: z.string()}).optional(),
+      screenshot: z.string().optional(),
+    }))
+    .optional()
+    .describe('Tool calls of the session, oldest first'),
+  ...errorOutput,
+};
+
+export const getActionLogTool: ToolCallback = async ({limit = 20, format}: {
+  limit?: number;
+  format?: OutputFormat;
+}): Promise<CallToolResult> => {
+  try {
+    const sessionId = getActiveSessionId();
+    if (!sessionId) {
+      throw new ToolError('NO_SESSION', 'No active browser session');
+    }
+
+    const entries = getActionLogEntries(sessionId, limit);
+    if (entries.length === 0) {
+      return {
+        content: [{type: 'text', text: `No actions recorded for session ${sessionId}`}],
+        structuredContent: {entries},
+      };
+    }
+    return dataResult(entries, {entries}, format);
+  } catch (e) {
+    return errorResult(e, 'Error getting action log');
+  }
+};
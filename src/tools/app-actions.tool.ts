@@ -2,6 +2,8 @@ import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types';
 import { z } from 'zod';
 import { getBrowser } from './browser.tool';
+import { errorResult } from '../utils/tool-result';
+import { recordStep, toLiteral } from '../utils/recorder';
 
 // Get App State Tool
 export const getAppStateToolArguments = {
@@ -38,9 +40,7 @@ export const getAppStateTool: ToolCallback = async (args: {
       ],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error getting app state: ${e}` }],
-    };
+    return errorResult(e, 'Error getting app state');
   }
 };
 
@@ -61,14 +61,13 @@ export const activateAppTool: ToolCallback = async (args: {
       : { bundleId: bundleId };
 
     await browser.execute('mobile: activateApp', appIdentifier);
+    recordStep({ tool: 'activate_app', code: [`await browser.execute('mobile: activateApp', ${toLiteral(appIdentifier)});`] });
 
     return {
       content: [{ type: 'text', text: `Activated app: ${bundleId}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error activating app: ${e}` }],
-    };
+    return errorResult(e, 'Error activating app');
   }
 };
 
@@ -89,13 +88,12 @@ export const terminateAppTool: ToolCallback = async (args: {
       : { bundleId: bundleId };
 
     await browser.execute('mobile: terminateApp', appIdentifier);
+    recordStep({ tool: 'terminate_app', code: [`await browser.execute('mobile: terminateApp', ${toLiteral(appIdentifier)});`] });
 
     return {
       content: [{ type: 'text', text: `Terminated app: ${bundleId}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error terminating app: ${e}` }],
-    };
+    return errorResult(e, 'Error terminating app');
   }
 };
\ No newline at end of file
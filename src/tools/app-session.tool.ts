@@ -1,4 +1,4 @@
-import { remote } from 'webdriverio';
+import { attach, remote } from 'webdriverio';
 import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types';
 import { z } from 'zod';
@@ -7,7 +7,8 @@ import {
   buildIOSCapabilities,
   buildAndroidCapabilities,
 } from '../config/appium.config';
-import { getBrowser } from './browser.tool';
+import { isSessionRegistered, registerSession } from './browser.tool';
+import { errorResult, toolErrorResult } from '../utils/tool-result';
 
 export const startAppToolArguments = {
   platform: z.enum(['iOS', 'Android']).describe('Mobile platform'),
@@ -30,17 +31,15 @@ export const startAppToolArguments = {
   fullReset: z.boolean().optional().describe('Uninstall app before/after session. Default: true. Set to false with noReset=true to preserve app state completely'),
 };
 
-// Access shared state from browser.tool.ts
-const getState = () => {
-  const sharedState = (getBrowser as any).__state;
-  if (!sharedState) {
-    throw new Error('Browser state not initialized');
-  }
-  return sharedState as {
-    browsers: Map<string, WebdriverIO.Browser>;
-    currentSession: string | null;
-    sessionMetadata: Map<string, { type: 'browser' | 'ios' | 'android'; capabilities: any; isAttached: boolean }>;
-  };
+export const attachSessionToolArguments = {
+  sessionId: z.string().describe('ID of the existing WebDriver/Appium session to attach to'),
+  hostname: z.string().optional().describe('Server hostname (overrides APPIUM_URL env var)'),
+  port: z.number().optional().describe('Server port (overrides APPIUM_URL_PORT env var)'),
+  path: z.string().optional().describe('Server path (overrides APPIUM_PATH env var)'),
+  platform: z
+    .enum(['iOS', 'Android', 'browser'])
+    .optional()
+    .describe('Session platform. Detected from the server session capabilities if omitted'),
 };
 
 export const startAppTool: ToolCallback = async (args: {
@@ -81,12 +80,7 @@ export const startAppTool: ToolCallback = async (args: {
 
     // Validate: either appPath or noReset=true is required
     if (!appPath && noReset !== true) {
-      return {
-        content: [{
-          type: 'text',
-          text: 'Error: Either "appPath" must be provided to install an app, or "noReset: true" must be set to connect to an already-running app.',
-        }],
-      };
+      return toolErrorResult('INVALID_ARGUMENT', 'Either "appPath" must be provided to install an app, or "noReset: true" must be set to connect to an already-running app.');
     }
 
     // Get Appium server configuration
@@ -140,10 +134,7 @@ export const startAppTool: ToolCallback = async (args: {
     // Store session and metadata
     // Auto-set isAttached=true when noReset or no appPath to preserve session on close
     const shouldAutoDetach = noReset === true || !appPath;
-    const state = getState();
-    state.browsers.set(sessionId, browser);
-    state.currentSession = sessionId;
-    state.sessionMetadata.set(sessionId, {
+    registerSession(browser, {
       type: platform.toLowerCase() as 'ios' | 'android',
       capabilities,
       isAttached: shouldAutoDetach,
@@ -162,9 +153,95 @@ export const startAppTool: ToolCallback = async (args: {
       ],
     };
   } catch (e) {
+    return errorResult(e, 'Error starting app session');
+  }
+};
+
+
+/**
+ * Query the capabilities of an existing session, trying the Appium 2 endpoint first
+ * and falling back to the legacy session endpoint
+ */
+const fetchSessionCapabilities = async (browser: WebdriverIO.Browser): Promise<Record<string, any>> => {
+  try {
+    return await browser.getAppiumSessionCapabilities() as Record<string, any>;
+  } catch {
+    try {
+      return await browser.getSession() as Record<string, any>;
+    } catch {
+      return {};
+    }
+  }
+};
+
+const detectSessionType = (capabilities: Record<string, any>): 'browser' | 'ios' | 'android' => {
+  const platformName = String(capabilities.platformName || '').toLowerCase();
+  if (platformName === 'ios' || platformName === 'android') {
+    return platformName;
+  }
+  return 'browser';
+};
+
+export const attachSessionTool: ToolCallback = async (args: {
+  sessionId: string;
+  hostname?: string;
+  port?: number;
+  path?: string;
+  platform?: 'iOS' | 'Android' | 'browser';
+}): Promise<CallToolResult> => {
+  try {
+    const { sessionId, hostname, port, path, platform } = args;
+
+    if (isSessionRegistered(sessionId)) {
+      return toolErrorResult('INVALID_ARGUMENT', `Session ${sessionId} is already registered on this server`, 'Use switch_session to make it current.');
+    }
+
+    const serverConfig = getAppiumServerConfig({ hostname, port, path });
+    const attachOptions = {
+      sessionId,
+      protocol: 'http',
+      hostname: serverConfig.hostname,
+      port: serverConfig.port,
+      path: serverConfig.path,
+    };
+
+    // Platform flags (isIOS/isAndroid) are derived from the capabilities given to attach(),
+    // so resolve the capabilities first and attach with them
+    let capabilities: Record<string, any>;
+    if (platform === 'browser') {
+      capabilities = {};
+    } else if (platform) {
+      capabilities = { platformName: platform };
+    } else {
+      const probe = await attach({ ...attachOptions, capabilities: {} });
+      capabilities = await fetchSessionCapabilities(probe);
+    }
+
+    const browser = await attach({ ...attachOptions, capabilities });
+    const type = platform ? (platform.toLowerCase() as 'browser' | 'ios' | 'android') : detectSessionType(capabilities);
+
+    // Verify the session is alive before registering it
+    if (type === 'browser') {
+      await browser.getUrl();
+    } else {
+      await browser.getContext();
+    }
+
+    registerSession(browser, {
+      type,
+      capabilities,
+      isAttached: true,
+    });
+
     return {
-      content: [{type: 'text', text: `Error starting app session: ${e}`}],
+      content: [
+        {
+          type: 'text',
+          text: `Attached to ${type} session ${sessionId}\nServer: ${serverConfig.hostname}:${serverConfig.port}${serverConfig.path}\n\n(Session will be detached, not terminated, on close. Use close_session({ detach: false }) to force terminate.)`,
+        },
+      ],
     };
+  } catch (e) {
+    return errorResult(e, 'Error attaching to session');
   }
 };
-
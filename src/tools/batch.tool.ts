@@ -0,0 +1,179 @@
+import {z} from 'zod';
+import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {CallToolResult} from '@modelcontextprotocol/sdk/types';
+import {getBrowser} from './browser.tool';
+import {getVisibleElementsToolOutput} from './get-visible-elements.tool';
+import {getServerConfig, OutputFormat} from '../config/server.config';
+import {dataResult, outputFormatArgument} from '../utils/output-format';
+import {recordStep, toLiteral} from '../utils/recorder';
+import {classifyError, errorOutput, errorResult} from '../utils/tool-result';
+
+const selectorArgument = z.string().describe('Element selector (CSS, XPath, accessibility ID, or UiAutomator)');
+
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({action: z.literal('click'), selector: selectorArgument}).strict(),
+  z.object({
+    action: z.literal('set_value'),
+    selector: selectorArgument,
+    value: z.string().optional(),
+    secretRef: z.string().optional().describe('Secret resolved on the server instead of value, see set_value'),
+  }).strict(),
+  z.object({action: z.literal('tap'), selector: selectorArgument.optional(), x: z.number().optional(), y: z.number().optional()}).strict(),
+  z.object({
+    action: z.literal('swipe'),
+    direction: z.enum(['up', 'down', 'left', 'right']),
+    duration: z.number().min(100).max(5000).optional(),
+    distance: z.number().optional(),
+  }).strict(),
+  z.object({
+    action: z.literal('wait'),
+    ms: z.number().int().min(0).max(30000).optional().describe('Pause for this long'),
+    selector: selectorArgument.optional().describe('Wait until this element is displayed instead'),
+    timeout: z.number().optional().describe('Maximum time to wait for the element in milliseconds'),
+  }).strict(),
+  z.object({action: z.literal('navigate'), url: z.string()}).strict(),
+  z.object({
+    action: z.literal('press_key'),
+    key: z.string().optional().describe('Key to press in browsers, e.g. "Enter", "Tab", "Escape"'),
+    keyCode: z.number().optional().describe('Android key code to press in apps, e.g. 66 for ENTER'),
+  }).strict(),
+]);
+
+type BatchAction = z.infer<typeof actionSchema>;
+
+// Actions carried out by an existing tool, so they behave (and are recorded) exactly like separate calls
+const ACTION_TOOLS: Partial<Record<BatchAction['action'], string>> = {
+  click: 'click_element',
+  set_value: 'set_value',
+  tap: 'tap_element',
+  swipe: 'swipe',
+  navigate: 'navigate',
+};
+
+export const batchToolArguments = {
+  actions: z.array(actionSchema).min(1).describe('Actions to run in order, e.g. [{action: "set_value", selector: "#email", value: "a@b.c"}, {action: "click", selector: "#submit"}]'),
+  continueOnError: z.boolean().optional().describe('Run the remaining actions after a failure. Default: false'),
+  snapshot: z.boolean().optional().describe('Return the visible elements after the last action, like get_visible_elements. Default: false'),
+  ...outputFormatArgument,
+};
+
+const actionResultSchema = z.object({
+  index: z.number(),
+  action: z.string(),
+  status: z.enum(['ok', 'failed', 'skipped']),
+  message: z.string().optional(),
+});
+
+type ActionResult = z.infer<typeof actionResultSchema>;
+
+export const batchToolOutput = {
+  results: z.array(actionResultSchema).optional().describe('Result per action, in order'),
+  elements: getVisibleElementsToolOutput.elements,
+  ...errorOutput,
+};
+
+const firstLine = (result: CallToolResult): string => {
+  const text = result.content?.find((item) => item.type === 'text');
+  return text?.type === 'text' ? text.text.split('\n')[0] : '';
+};
+
+/**
+ * Actions without a matching tool: pauses, waiting for elements and key presses
+ */
+const runBuiltInAction = async (action: BatchAction): Promise<string> => {
+  const browser = getBrowser();
+  if (action.action === 'wait') {
+    if (action.selector) {
+      const timeout = action.timeout ?? getServerConfig().timeouts.element;
+      await browser.$(action.selector).waitForDisplayed({timeout, timeoutMsg: `Element not displayed: ${action.selector}`});
+      recordStep({tool: 'batch', selector: action.selector, code: [`await $(${toLiteral(action.selector)}).waitForDisplayed({timeout: ${timeout}});`]});
+      return `Element displayed: ${action.selector}`;
+    }
+    const ms = action.ms ?? 1000;
+    await browser.pause(ms);
+    recordStep({tool: 'batch', code: [`await browser.pause(${ms});`]});
+    return `Waited ${ms}ms`;
+  }
+
+  if (action.action === 'press_key') {
+    if (action.keyCode !== undefined) {
+      await browser.pressKeyCode(action.keyCode);
+      recordStep({tool: 'batch', code: [`await browser.pressKeyCode(${action.keyCode});`]});
+      return `Pressed key code: ${action.keyCode}`;
+    }
+    if (action.key === undefined) {
+      throw new Error('press_key needs key or keyCode');
+    }
+    await browser.keys(action.key);
+    recordStep({tool: 'batch', code: [`await browser.keys(${toLiteral(action.key)});`]});
+    return `Pressed key: ${action.key}`;
+  }
+
+  throw new Error(`Unsupported action: ${action.action}`);
+};
+
+export const batchTool: ToolCallback = async ({actions, continueOnError = false, snapshot = false, format}: {
+  actions: BatchAction[];
+  continueOnError?: boolean;
+  snapshot?: boolean;
+  format?: OutputFormat;
+}, extra): Promise<CallToolResult> => {
+  try {
+    // Imported lazily, as the registry imports this tool
+    const {callTool} = await import('./registry');
+    const results: ActionResult[] = [];
+    let stopped = false;
+
+    for (const [index, action] of actions.entries()) {
+      const result: ActionResult = {index: index + 1, action: action.action, status: 'skipped'};
+      results.push(result);
+      if (stopped) {
+        continue;
+      }
+
+      try {
+        const tool = ACTION_TOOLS[action.action];
+        if (tool) {
+          const {action: _action, ...args} = action;
+          const toolResult = await callTool(tool, args, extra);
+          const error = toolResult.structuredContent?.error as { code: string; message: string } | undefined;
+          result.status = toolResult.isError ? 'failed' : 'ok';
+          result.message = toolResult.isError && error ? `${error.code}: ${error.message}` : firstLine(toolResult);
+        } else {
+          result.message = await runBuiltInAction(action);
+          result.status = 'ok';
+        }
+      } catch (e) {
+        const {code, message} = classifyError(e);
+        result.status = 'failed';
+        result.message = `${code}: ${message}`;
+      }
+      stopped = result.status === 'failed' && !continueOnError;
+    }
+
+    const failed = results.filter((result) => result.status === 'failed').length;
+    const ok = results.filter((result) => result.status === 'ok').length;
+    const batchResult = dataResult(results, {results}, format);
+    batchResult.content.unshift({
+      type: 'text',
+      text: `${failed > 0 ? 'FAILED' : 'OK'}: ${ok} of ${results.length} actions succeeded`,
+    });
+
+    if (snapshot) {
+      // A failing snapshot (e.g. get_visible_elements is disabled) must not lose the action results
+      try {
+        const elementsResult = await callTool('get_visible_elements', {format}, extra);
+        batchResult.content.push(...elementsResult.content);
+        if (!elementsResult.isError) {
+          batchResult.structuredContent = {...batchResult.structuredContent, elements: elementsResult.structuredContent?.elements};
+        }
+      } catch (e) {
+        const {code, message} = classifyError(e);
+        batchResult.content.push({type: 'text', text: `Snapshot failed: ${code}: ${message}`});
+      }
+    }
+    return batchResult;
+  } catch (e) {
+    return errorResult(e, 'Error running batch');
+  }
+};
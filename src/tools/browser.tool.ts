@@ -1,86 +1,238 @@
+import {AsyncLocalStorage} from 'node:async_hooks';
 import {remote} from 'webdriverio';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
 import {CallToolResult} from '@modelcontextprotocol/sdk/types';
 import {z} from 'zod';
+import {
+  buildBrowserCapabilities,
+  DEVICE_PRESET_NAMES,
+  DevicePreset,
+  getWebDriverServerConfig,
+  hasDeviceEmulation,
+  ProxyOptions,
+  SupportedBrowser,
+} from '../config/browser.config';
+import {getServerConfig, OutputFormat} from '../config/server.config';
+import {errorOutput, errorResult, ToolError, toolErrorResult} from '../utils/tool-result';
+import {dataResult, outputFormatArgument} from '../utils/output-format';
+import {acquireSessionLock, tryAcquireSessionLock} from '../utils/session-lock';
 
 export const startBrowserToolArguments = {
+  browser: z.enum(['chrome', 'firefox', 'edge']).optional().describe('Browser to launch. Default: chrome (or the server config)'),
   headless: z.boolean().optional(),
   windowWidth: z.number().min(400).max(3840).optional(),
   windowHeight: z.number().min(400).max(2160).optional(),
+  device: z.enum(DEVICE_PRESET_NAMES).optional().describe('Emulate a mobile device (viewport, pixel ratio, user agent, touch). Chrome and Edge only'),
+  deviceScaleFactor: z.number().min(1).max(4).optional().describe('Emulated device pixel ratio (overrides the device preset)'),
+  userAgent: z.string().optional().describe('Emulated user agent string (overrides the device preset)'),
+  isMobile: z.boolean().optional().describe('Emulate a mobile viewport, e.g. meta viewport handling (overrides the device preset)'),
+  hasTouch: z.boolean().optional().describe('Emulate touch support (overrides the device preset)'),
+  proxy: z
+    .object({
+      http: z.string().optional().describe('HTTP proxy as host:port'),
+      https: z.string().optional().describe('HTTPS proxy as host:port'),
+      socks: z.string().optional().describe('SOCKS proxy as host:port'),
+      socksVersion: z.union([z.literal(4), z.literal(5)]).optional().describe('SOCKS version. Default: 5'),
+      bypass: z.array(z.string()).optional().describe('Hosts that bypass the proxy (e.g. ["localhost", ".internal.example.com"])'),
+    })
+    .optional()
+    .describe('Proxy settings for the browser session'),
+  userDataDir: z.string().optional().describe('Path to a browser profile directory to reuse (created if missing). Keeps logins and storage across sessions'),
+  hostname: z.string().optional().describe('Remote WebDriver server hostname, e.g. a Selenium Grid (overrides WEBDRIVER_URL env var). Launches a local browser if neither is set'),
+  port: z.number().optional().describe('Remote WebDriver server port (overrides WEBDRIVER_URL_PORT env var). Default: 4444'),
+  path: z.string().optional().describe('Remote WebDriver server path (overrides WEBDRIVER_PATH env var). Default: /'),
+  protocol: z.enum(['http', 'https']).optional().describe('Remote WebDriver server protocol (overrides WEBDRIVER_PROTOCOL env var). Default: http'),
 };
 
 export const closeSessionToolArguments = {
-  detach: z.boolean().optional().describe('If true, disconnect from session without terminating it (preserves app state). Default: false'),
+  detach: z.boolean().optional().describe('If true, disconnect from session without terminating it (preserves app state). Default: true for attached sessions, false otherwise'),
 };
 
+// Optional argument added to every session-bound tool (see withSession)
+export const sessionIdArgument = {
+  sessionId: z.string().optional().describe('ID of the session to run against (see list_sessions). Defaults to the current session'),
+};
+
+export const switchSessionToolArguments = {
+  sessionId: z.string().describe('Session ID to make current (as returned by list_sessions)'),
+};
+
+export interface SessionMetadata {
+  type: 'browser' | 'ios' | 'android';
+  capabilities: any;
+  isAttached: boolean;
+  lastUsed: number;
+  // MCP connection the session belongs to (see withNamespace)
+  namespace: string;
+}
+
+// Namespace of tool calls that don't come from a multi-connection transport (stdio)
+const DEFAULT_NAMESPACE = 'default';
+
 const state: {
   browsers: Map<string, WebdriverIO.Browser>;
-  currentSession: string | null;
-  sessionMetadata: Map<string, { type: 'browser' | 'ios' | 'android'; capabilities: any; isAttached: boolean }>;
+  // Current session per namespace
+  currentSessions: Map<string, string>;
+  sessionMetadata: Map<string, SessionMetadata>;
+  reapedSessions: Map<string, { reapedAt: number; idleFor: number; action: 'closed' | 'detached' }>;
 } = {
   browsers: new Map<string, WebdriverIO.Browser>(),
-  currentSession: null,
+  currentSessions: new Map(),
   sessionMetadata: new Map(),
+  reapedSessions: new Map(),
 };
 
+// Namespace and session targeted by the tool call in progress; scoped per call so parallel calls never share it
+const sessionScope = new AsyncLocalStorage<{ namespace: string; sessionId?: string }>();
+
+const currentNamespace = () => sessionScope.getStore()?.namespace ?? DEFAULT_NAMESPACE;
+
+const getCurrentSessionId = () => state.currentSessions.get(currentNamespace()) ?? null;
+
+const resolveSessionId = () => sessionScope.getStore()?.sessionId ?? getCurrentSessionId();
+
+// Sessions of other namespaces are invisible to the calling connection
+const isInNamespace = (sessionId: string) => state.sessionMetadata.get(sessionId)?.namespace === currentNamespace();
+
 export const getBrowser = () => {
-  const browser = state.browsers.get(state.currentSession);
+  const sessionId = resolveSessionId();
+  const browser = isInNamespace(sessionId) ? state.browsers.get(sessionId) : undefined;
   if (!browser) {
-    throw new Error('No active browser session');
+    const reaped = state.reapedSessions.get(sessionId);
+    if (reaped) {
+      throw new ToolError('NO_SESSION', `Session ${sessionId} was ${reaped.action} by the idle session reaper after ${Math.round(reaped.idleFor / 1000)}s of inactivity`, 'Start or attach a new session.');
+    }
+    throw new ToolError('NO_SESSION', sessionScope.getStore()?.sessionId ? `Session ${sessionId} not found` : 'No active browser session');
+  }
+
+  const metadata = state.sessionMetadata.get(sessionId);
+  if (metadata) {
+    metadata.lastUsed = Date.now();
   }
   return browser;
 };
-// Export state for app-session.tool.ts to access
-(getBrowser as any).__state = state;
 
-export const startBrowserTool: ToolCallback = async ({headless = false, windowWidth = 1280, windowHeight = 1080}: {
+/**
+ * Register a newly started or attached session in the calling namespace and make it current
+ */
+export const registerSession = (browser: WebdriverIO.Browser, metadata: Omit<SessionMetadata, 'lastUsed' | 'namespace'>) => {
+  const {sessionId} = browser;
+  const namespace = currentNamespace();
+  state.browsers.set(sessionId, browser);
+  state.sessionMetadata.set(sessionId, {...metadata, lastUsed: Date.now(), namespace});
+  state.currentSessions.set(namespace, sessionId);
+};
+
+export const isSessionRegistered = (sessionId: string) => state.browsers.has(sessionId);
+
+/**
+ * Session that getBrowser() resolves to in the current scope, if any.
+ * Wrappers resolving the session of a tool call (locking, logging, URL policy) must run inside that scope,
+ * i.e. within withSession/withNamespace or runInSessionScope; outside of it, this is the default namespace's session.
+ */
+export const getActiveSessionId = (): string | null => {
+  const sessionId = resolveSessionId();
+  return sessionId && isInNamespace(sessionId) && state.browsers.has(sessionId) ? sessionId : null;
+};
+
+/**
+ * Run a function in the session scope of an MCP request, for handlers other than tools (e.g. resources)
+ */
+export const runInSessionScope = <T>(extra: { sessionId?: string } | undefined, sessionId: string | undefined, fn: () => T): T =>
+  sessionScope.run({namespace: extra?.sessionId ?? DEFAULT_NAMESPACE, sessionId}, fn);
+
+/**
+ * Wrap a tool callback so that it runs in the session namespace of the MCP connection it was called from.
+ * Transports serving several clients (Streamable HTTP, SSE) provide a per-connection sessionId.
+ */
+export const withNamespace = (callback: ToolCallback<any>): ToolCallback<any> => async (args: any, extra: any) =>
+  runInSessionScope(extra, undefined, () => callback(args, extra));
+
+/**
+ * Wrap a tool callback so that an optional `sessionId` argument pins every getBrowser() call
+ * made during that tool call to the given session, without touching the current session
+ */
+export const withSession = (callback: ToolCallback<any>): ToolCallback<any> => async (args: any, extra: any) => {
+  const {sessionId, ...toolArgs} = args || {};
+  return runInSessionScope(extra, sessionId, () => callback(toolArgs, extra));
+};
+
+export const startBrowserTool: ToolCallback = async ({
+  browser: browserName = getServerConfig().browser.browser,
+  headless = getServerConfig().browser.headless,
+  windowWidth = getServerConfig().browser.windowWidth,
+  windowHeight = getServerConfig().browser.windowHeight,
+  device,
+  deviceScaleFactor,
+  userAgent,
+  isMobile,
+  hasTouch,
+  proxy,
+  userDataDir,
+  hostname,
+  port,
+  path,
+  protocol,
+}: {
+  browser?: SupportedBrowser;
   headless?: boolean;
   windowWidth?: number;
   windowHeight?: number;
+  device?: DevicePreset;
+  deviceScaleFactor?: number;
+  userAgent?: string;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  proxy?: ProxyOptions;
+  userDataDir?: string;
+  hostname?: string;
+  port?: number;
+  path?: string;
+  protocol?: 'http' | 'https';
 }): Promise<CallToolResult> => {
-  const chromeArgs = [
-    `--window-size=${windowWidth},${windowHeight}`,
-    '--no-sandbox',
-    '--disable-search-engine-choice-screen',
-    '--disable-infobars',
-    '--log-level=3',
-    '--use-fake-device-for-media-stream',
-    '--use-fake-ui-for-media-stream',
-    '--disable-web-security',
-    '--allow-running-insecure-content',
-  ];
-
-  // Add headless argument if enabled
-  if (headless) {
-    chromeArgs.push('--headless=new');
-    chromeArgs.push('--disable-gpu');
-    chromeArgs.push('--disable-dev-shm-usage');
+  const emulation = {device, deviceScaleFactor, userAgent, isMobile, hasTouch};
+  if (hasDeviceEmulation(emulation) && browserName === 'firefox') {
+    return toolErrorResult('UNSUPPORTED_PLATFORM', 'Device emulation is only supported in Chrome and Edge', 'Use browser: "chrome" or "edge".');
   }
 
-  const browser = await remote({
-    capabilities: {
-      browserName: 'chrome',
-      'goog:chromeOptions': {
-        args: chromeArgs,
-      },
-      acceptInsecureCerts: true,
-    },
-  });
+  // Connect to a remote WebDriver server when configured, otherwise launch a local driver
+  const serverConfig = getWebDriverServerConfig({hostname, port, path, protocol});
+
+  let browser: WebdriverIO.Browser;
+  try {
+    browser = await remote({
+      ...serverConfig,
+      capabilities: buildBrowserCapabilities(browserName, {
+        headless,
+        windowWidth,
+        windowHeight,
+        args: getServerConfig().browser.args,
+        userDataDir,
+        emulation,
+        proxy,
+      }),
+    });
+  } catch (e) {
+    return errorResult(e, 'Error starting browser');
+  }
 
   const {sessionId} = browser;
-  state.browsers.set(sessionId, browser);
-  state.currentSession = sessionId;
-  state.sessionMetadata.set(sessionId, {
+  registerSession(browser, {
     type: 'browser',
     capabilities: browser.capabilities,
     isAttached: false,
   });
 
   const modeText = headless ? 'headless' : 'headed';
+  const emulationInfo = hasDeviceEmulation(emulation) ? `\nEmulating: ${device || 'custom device'}` : '';
+  const profileInfo = userDataDir ? `\nProfile: ${userDataDir}` : '';
+  const serverInfo = serverConfig
+    ? `\nWebDriver Server: ${serverConfig.protocol}://${serverConfig.hostname}:${serverConfig.port}${serverConfig.path}`
+    : '';
   return {
     content: [{
       type: 'text',
-      text: `Browser started in ${modeText} mode with sessionId: ${sessionId} (${windowWidth}x${windowHeight})`,
+      text: `Browser (${browserName}) started in ${modeText} mode with sessionId: ${sessionId} (${windowWidth}x${windowHeight})${emulationInfo}${profileInfo}${serverInfo}`,
     }],
   };
 };
@@ -88,21 +240,26 @@ export const startBrowserTool: ToolCallback = async ({headless = false, windowWi
 export const closeSessionTool: ToolCallback = async (args: { detach?: boolean } = {}): Promise<CallToolResult> => {
   try {
     const browser = getBrowser();
-    const sessionId = state.currentSession;
+    const sessionId = resolveSessionId();
     const metadata = state.sessionMetadata.get(sessionId);
 
+    // Attached sessions detach by default unless explicitly asked to terminate
+    const detach = args.detach ?? metadata?.isAttached ?? false;
+
     // Only delete session if not detaching
-    if (!args.detach) {
+    if (!detach) {
       await browser.deleteSession();
     }
 
     // Always clean up local state
     state.browsers.delete(sessionId);
     state.sessionMetadata.delete(sessionId);
-    state.currentSession = null;
+    if (getCurrentSessionId() === sessionId) {
+      state.currentSessions.delete(currentNamespace());
+    }
 
-    const action = args.detach ? 'detached from' : 'closed';
-    const note = args.detach && !metadata?.isAttached
+    const action = detach ? 'detached from' : 'closed';
+    const note = detach && !metadata?.isAttached
       ? '\nNote: Session will remain active on Appium server.'
       : '';
 
@@ -110,8 +267,206 @@ export const closeSessionTool: ToolCallback = async (args: { detach?: boolean }
       content: [{type: 'text', text: `Session ${sessionId} ${action}${note}`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error closing session: ${e}`}],
+    return errorResult(e, 'Error closing session');
+  }
+};
+
+export interface SessionSummary {
+  sessionId: string;
+  type: SessionMetadata['type'] | 'unknown';
+  capabilities: string;
+  isAttached: boolean;
+  isCurrent: boolean;
+  url?: string;
+  context?: string;
+  error?: string;
+}
+
+/**
+ * Describe the sessions of the calling namespace, including where each one currently is
+ */
+export const getSessionSummaries = async (): Promise<SessionSummary[]> => {
+  const ownSessions = [...state.browsers].filter(([sessionId]) => isInNamespace(sessionId));
+
+  const summaries: SessionSummary[] = [];
+  for (const [sessionId, browser] of ownSessions) {
+    const metadata = state.sessionMetadata.get(sessionId);
+    const capabilities = metadata?.capabilities || {};
+
+    const summary: SessionSummary = {
+      sessionId,
+      type: metadata?.type || 'unknown',
+      capabilities: metadata?.type === 'browser'
+        ? [capabilities.browserName, capabilities.browserVersion].filter(Boolean).join(' ')
+        : [
+          capabilities.platformName,
+          capabilities['appium:platformVersion'],
+          capabilities['appium:deviceName'],
+          capabilities['appium:app'] || capabilities['appium:bundleId'] || capabilities['appium:appPackage'],
+        ].filter(Boolean).join(', '),
+      isAttached: metadata?.isAttached ?? false,
+      isCurrent: sessionId === getCurrentSessionId(),
     };
+
+    // Browser sessions report their URL, mobile sessions their active context, unless a call is using them
+    const release = tryAcquireSessionLock(sessionId);
+    if (!release) {
+      summary.error = 'Busy with another tool call';
+      summaries.push(summary);
+      continue;
+    }
+    try {
+      if (metadata?.type === 'browser') {
+        summary.url = await browser.getUrl();
+      } else {
+        summary.context = String(await browser.getContext());
+      }
+    } catch (e) {
+      summary.error = String(e);
+    } finally {
+      release();
+    }
+
+    summaries.push(summary);
+  }
+  return summaries;
+};
+
+export const listSessionsToolArguments = {
+  ...outputFormatArgument,
+};
+
+export const listSessionsToolOutput = {
+  sessions: z
+    .array(z.object({
+      sessionId: z.string(),
+      type: z.string(),
+      capabilities: z.string(),
+      isAttached: z.boolean(),
+      isCurrent: z.boolean(),
+      url: z.string().optional(),
+      context: z.string().optional(),
+      error: z.string().optional(),
+    }))
+    .optional()
+    .describe('Active sessions of this connection'),
+  ...errorOutput,
+};
+
+export const listSessionsTool: ToolCallback = async ({format}: { format?: OutputFormat } = {}): Promise<CallToolResult> => {
+  try {
+    const sessions = await getSessionSummaries();
+    if (sessions.length === 0) {
+      return {
+        content: [{type: 'text', text: 'No active sessions'}],
+        structuredContent: {sessions},
+      };
+    }
+
+    return dataResult(sessions, {sessions}, format);
+  } catch (e) {
+    return errorResult(e, 'Error listing sessions');
+  }
+};
+
+export const switchSessionTool: ToolCallback = async ({sessionId}: { sessionId: string }): Promise<CallToolResult> => {
+  if (!state.browsers.has(sessionId) || !isInNamespace(sessionId)) {
+    return toolErrorResult('NO_SESSION', `Session ${sessionId} not found`, 'Use list_sessions to see active sessions.');
+  }
+
+  state.currentSessions.set(currentNamespace(), sessionId);
+  const metadata = state.sessionMetadata.get(sessionId);
+  return {
+    content: [{type: 'text', text: `Switched to ${metadata?.type || 'unknown'} session ${sessionId}`}],
+  };
+};
+
+// Time closing all sessions waits for a running call before closing its session anyway
+const CLOSE_WAIT_TIMEOUT = 5000;
+
+/**
+ * Close every registered session (or those of one namespace), only detaching from attached ones
+ * so they survive on the server. Used on shutdown and when a connection goes away; never throws.
+ */
+export const closeAllSessions = async (namespace?: string): Promise<{ closed: string[]; detached: string[]; failed: string[] }> => {
+  const summary = {closed: [] as string[], detached: [] as string[], failed: [] as string[]};
+  const sessions = [...state.browsers].filter(([sessionId]) =>
+    namespace === undefined || state.sessionMetadata.get(sessionId)?.namespace === namespace);
+
+  await Promise.all(sessions.map(async ([sessionId, browser]) => {
+    const metadata = state.sessionMetadata.get(sessionId);
+    const release = await acquireSessionLock(sessionId, CLOSE_WAIT_TIMEOUT).catch(() => undefined);
+    try {
+      if (metadata?.isAttached) {
+        summary.detached.push(sessionId);
+      } else {
+        await browser.deleteSession();
+        summary.closed.push(sessionId);
+      }
+    } catch (e) {
+      summary.failed.push(`${sessionId} (${e})`);
+    } finally {
+      state.browsers.delete(sessionId);
+      state.sessionMetadata.delete(sessionId);
+      release?.();
+    }
+  }));
+
+  if (namespace === undefined) {
+    state.currentSessions.clear();
+  } else {
+    state.currentSessions.delete(namespace);
+  }
+  return summary;
+};
+
+/**
+ * Idle timeout in milliseconds, configured in seconds through timeouts.idle (0 disables the reaper)
+ */
+const getIdleTimeout = (): number => getServerConfig().timeouts.idle * 1000;
+
+/**
+ * Periodically close sessions that no tool call used within the idle timeout. Sessions busy with a call are
+ * left for the next check. Attached sessions are only detached. Reaped session IDs are remembered so later calls can report it.
+ */
+export const startIdleSessionReaper = (): void => {
+  const idleTimeout = getIdleTimeout();
+  if (idleTimeout <= 0) {
+    return;
   }
-};
\ No newline at end of file
+
+  const reap = async () => {
+    const now = Date.now();
+    for (const [sessionId, metadata] of state.sessionMetadata) {
+      const idleFor = now - metadata.lastUsed;
+      const release = idleFor >= idleTimeout ? tryAcquireSessionLock(sessionId) : undefined;
+      if (!release) {
+        continue;
+      }
+
+      const browser = state.browsers.get(sessionId);
+      const action = metadata.isAttached ? 'detached' : 'closed';
+      state.browsers.delete(sessionId);
+      state.sessionMetadata.delete(sessionId);
+      state.reapedSessions.set(sessionId, {reapedAt: now, idleFor, action});
+
+      try {
+        if (!metadata.isAttached) {
+          await browser?.deleteSession();
+        }
+        console.error(`Idle session ${sessionId} ${action} after ${Math.round(idleFor / 1000)}s of inactivity`);
+      } catch (e) {
+        console.error(`Failed to close idle session ${sessionId}: ${e}`);
+      } finally {
+        release();
+      }
+    }
+  };
+
+  // Check often enough that sessions don't outlive the timeout by much
+  const interval = Math.min(Math.max(idleTimeout / 4, 1000), 60000);
+  setInterval(() => {
+    reap().catch((e) => console.error('Idle session reaper failed:', e));
+  }, interval).unref();
+  console.error(`Idle session reaper enabled (timeout: ${idleTimeout / 1000}s)`);
+};
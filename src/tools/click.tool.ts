@@ -1,9 +1,10 @@
 import {getBrowser} from './browser.tool';
+import {getServerConfig} from '../config/server.config';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
 import {CallToolResult} from '@modelcontextprotocol/sdk/types';
-
-const defaultTimeout: number = 3000;
+import {errorResult} from '../utils/tool-result';
+import {recordStep, toLiteral} from '../utils/recorder';
 
 export const clickToolArguments = {
   selector: z.string().describe('Value for the selector, in the form of css selector or xpath ("button.my-class" or "//button[@class=\'my-class\']" or "button=Exact text with spaces" or "a*=Link containing text")'),
@@ -11,33 +12,32 @@ export const clickToolArguments = {
   timeout: z.number().optional().describe('Maximum time to wait for element in milliseconds'),
 };
 
-const clickAction = async (selector: string, timeout: number, scrollToView = true): Promise<CallToolResult> => {
+const clickAction = async (tool: string, selector: string, timeout: number, scrollToView = true): Promise<CallToolResult> => {
   try {
     const browser = getBrowser();
-    await browser.waitUntil(browser.$(selector).isExisting, {timeout});
+    await browser.waitUntil(browser.$(selector).isExisting, {timeout, timeoutMsg: `Element not found: ${selector}`});
     if (scrollToView) {
       await browser.$(selector).scrollIntoView({ block: 'center', inline: 'center' });
     }
     await browser.$(selector).click();
+    recordStep({tool, selector, code: [`await $(${toLiteral(selector)}).click();`]});
     return {
       content: [{type: 'text', text: `Element clicked (selector: ${selector})`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error clicking element: ${e}`}],
-    };
+    return errorResult(e, 'Error clicking element');
   }
 };
 
-export const clickTool: ToolCallback = async ({selector, scrollToView, timeout = defaultTimeout}: {
+export const clickTool: ToolCallback = async ({selector, scrollToView, timeout = getServerConfig().timeouts.element}: {
   selector: string;
   scrollToView?: boolean;
   timeout?: number
-}): Promise<CallToolResult> => clickAction(selector, timeout, scrollToView);
+}): Promise<CallToolResult> => clickAction('click_element', selector, timeout, scrollToView);
 
 
-export const clickToolViaText: ToolCallback = async ({text, scrollToView, timeout = defaultTimeout}: {
+export const clickToolViaText: ToolCallback = async ({text, scrollToView, timeout = getServerConfig().timeouts.element}: {
   text: string;
   scrollToView?: boolean;
   timeout?: number
-}): Promise<CallToolResult> => clickAction(`//a[contains(text(), '${text}')]`, timeout, scrollToView);
+}): Promise<CallToolResult> => clickAction('click_via_text', `//a[contains(text(), '${text}')]`, timeout, scrollToView);
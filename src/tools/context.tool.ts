@@ -2,26 +2,30 @@ import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types';
 import { z } from 'zod';
 import { getBrowser } from './browser.tool';
+import { errorOutput, errorResult, toolErrorResult } from '../utils/tool-result';
+import { recordStep, toLiteral } from '../utils/recorder';
+import { dataResult, outputFormatArgument } from '../utils/output-format';
+import { OutputFormat } from '../config/server.config';
 
 // Get Contexts Tool
-export const getContextsTool: ToolCallback = async (): Promise<CallToolResult> => {
+export const getContextsToolArguments = {
+  ...outputFormatArgument,
+};
+
+export const getContextsToolOutput = {
+  contexts: z.array(z.any()).optional().describe('Available contexts; switch_context accepts a name or 1-based index'),
+  ...errorOutput,
+};
+
+export const getContextsTool: ToolCallback = async ({ format }: { format?: OutputFormat } = {}): Promise<CallToolResult> => {
   try {
     const browser = getBrowser();
 
     const contexts = await browser.getContexts();
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Available contexts:\n${contexts.map((ctx, idx) => `${idx + 1}. ${ctx}`).join('\n')}`,
-        },
-      ],
-    };
+    return dataResult(contexts, { contexts }, format);
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error getting contexts: ${e}` }],
-    };
+    return errorResult(e, 'Error getting contexts');
   }
 };
 
@@ -36,9 +40,7 @@ export const getCurrentContextTool: ToolCallback = async (): Promise<CallToolRes
       content: [{ type: 'text', text: `Current context: ${JSON.stringify(currentContext)}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error getting current context: ${e}` }],
-    };
+    return errorResult(e, 'Error getting current context');
   }
 };
 
@@ -66,25 +68,21 @@ export const switchContextTool: ToolCallback = async (args: {
       if (index >= 0 && index < contexts.length) {
         targetContext = contexts[index] as string;
       } else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: Invalid context index ${context}. Available contexts: ${contexts.length}`,
-            },
-          ],
-        };
+        return toolErrorResult(
+          'INVALID_ARGUMENT',
+          `Invalid context index ${context}. Available contexts: ${contexts.length}`,
+          'Call get_contexts to list the available contexts.',
+        );
       }
     }
 
     await browser.switchContext(targetContext);
+    recordStep({ tool: 'switch_context', code: [`await browser.switchContext(${toLiteral(targetContext)});`] });
 
     return {
       content: [{ type: 'text', text: `Switched to context: ${targetContext}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error switching context: ${e}` }],
-    };
+    return errorResult(e, 'Error switching context');
   }
 };
@@ -2,13 +2,23 @@ import {getBrowser} from './browser.tool';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
 import {CallToolResult} from '@modelcontextprotocol/sdk/types';
+import {errorOutput, errorResult} from '../utils/tool-result';
+import {dataResult, outputFormatArgument} from '../utils/output-format';
+import {OutputFormat} from '../config/server.config';
+import {recordStep, toLiteral} from '../utils/recorder';
 
 // Get all cookies or a specific cookie by name
 export const getCookiesToolArguments = {
   name: z.string().optional().describe('Optional cookie name to retrieve a specific cookie. If not provided, returns all cookies'),
+  ...outputFormatArgument,
 };
 
-export const getCookiesTool: ToolCallback = async ({name}: { name?: string }): Promise<CallToolResult> => {
+export const getCookiesToolOutput = {
+  cookies: z.array(z.record(z.any())).optional().describe('Matching cookies'),
+  ...errorOutput,
+};
+
+export const getCookiesTool: ToolCallback = async ({name, format}: { name?: string; format?: OutputFormat }): Promise<CallToolResult> => {
   try {
     const browser = getBrowser();
 
@@ -18,27 +28,23 @@ export const getCookiesTool: ToolCallback = async ({name}: { name?: string }): P
       if (cookie.length === 0) {
         return {
           content: [{type: 'text', text: `Cookie "${name}" not found`}],
+          structuredContent: {cookies: []},
         };
       }
-      return {
-        content: [{type: 'text', text: JSON.stringify(cookie[0], null, 2)}],
-      };
+      return dataResult(cookie[0], {cookies: cookie}, format);
     } else {
       // Get all cookies
       const cookies = await browser.getCookies();
       if (cookies.length === 0) {
         return {
           content: [{type: 'text', text: 'No cookies found'}],
+          structuredContent: {cookies: []},
         };
       }
-      return {
-        content: [{type: 'text', text: JSON.stringify(cookies, null, 2)}],
-      };
+      return dataResult(cookies, {cookies}, format);
     }
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error getting cookies: ${e}`}],
-    };
+    return errorResult(e, 'Error getting cookies');
   }
 };
 
@@ -90,14 +96,13 @@ export const setCookieTool: ToolCallback = async ({
     if (sameSite) cookie.sameSite = sameSite;
 
     await browser.setCookies(cookie);
+    recordStep({tool: 'set_cookie', code: [`await browser.setCookies(${toLiteral(cookie)});`]});
 
     return {
       content: [{type: 'text', text: `Cookie "${name}" set successfully`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error setting cookie: ${e}`}],
-    };
+    return errorResult(e, 'Error setting cookie');
   }
 };
 
@@ -113,19 +118,19 @@ export const deleteCookiesTool: ToolCallback = async ({name}: { name?: string })
     if (name) {
       // Delete specific cookie by name
       await browser.deleteCookies([name]);
+      recordStep({tool: 'delete_cookies', code: [`await browser.deleteCookies([${toLiteral(name)}]);`]});
       return {
         content: [{type: 'text', text: `Cookie "${name}" deleted successfully`}],
       };
     } else {
       // Delete all cookies
       await browser.deleteCookies();
+      recordStep({tool: 'delete_cookies', code: ['await browser.deleteCookies();']});
       return {
         content: [{type: 'text', text: 'All cookies deleted successfully'}],
       };
     }
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error deleting cookies: ${e}`}],
-    };
+    return errorResult(e, 'Error deleting cookies');
   }
 };
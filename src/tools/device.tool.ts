@@ -2,9 +2,26 @@ import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types';
 import { z } from 'zod';
 import { getBrowser } from './browser.tool';
+import { errorOutput, errorResult } from '../utils/tool-result';
+import { dataResult, outputFormatArgument } from '../utils/output-format';
+import { OutputFormat } from '../config/server.config';
+import { recordStep, toLiteral } from '../utils/recorder';
 
 // Get Device Info Tool
-export const getDeviceInfoTool: ToolCallback = async (): Promise<CallToolResult> => {
+export const getDeviceInfoToolArguments = {
+  ...outputFormatArgument,
+};
+
+export const getDeviceInfoToolOutput = {
+  platformName: z.string().optional(),
+  platformVersion: z.string().optional(),
+  deviceName: z.string().optional(),
+  automationName: z.string().optional(),
+  screenSize: z.string().optional().describe('Window size as WIDTHxHEIGHT'),
+  ...errorOutput,
+};
+
+export const getDeviceInfoTool: ToolCallback = async ({ format }: { format?: OutputFormat } = {}): Promise<CallToolResult> => {
   try {
     const browser = getBrowser();
 
@@ -20,20 +37,9 @@ export const getDeviceInfoTool: ToolCallback = async (): Promise<CallToolResult>
       screenSize: `${windowSize.width}x${windowSize.height}`,
     };
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Device Info:\n${Object.entries(info)
-            .map(([key, value]) => `  ${key}: ${value}`)
-            .join('\n')}`,
-        },
-      ],
-    };
+    return dataResult(info, info, format);
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error getting device info: ${e}` }],
-    };
+    return errorResult(e, 'Error getting device info');
   }
 };
 
@@ -50,14 +56,13 @@ export const rotateDeviceTool: ToolCallback = async (args: {
     const { orientation } = args;
 
     await browser.setOrientation(orientation);
+    recordStep({ tool: 'rotate_device', code: [`await browser.setOrientation(${toLiteral(orientation)});`] });
 
     return {
       content: [{ type: 'text', text: `Device rotated to: ${orientation}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error rotating device: ${e}` }],
-    };
+    return errorResult(e, 'Error rotating device');
   }
 };
 
@@ -72,9 +77,7 @@ export const getOrientationTool: ToolCallback = async (): Promise<CallToolResult
       content: [{ type: 'text', text: `Current orientation: ${orientation}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error getting orientation: ${e}` }],
-    };
+    return errorResult(e, 'Error getting orientation');
   }
 };
 
@@ -84,14 +87,13 @@ export const lockDeviceTool: ToolCallback = async (): Promise<CallToolResult> =>
     const browser = getBrowser();
 
     await browser.lock();
+    recordStep({ tool: 'lock_device', code: ['await browser.lock();'] });
 
     return {
       content: [{ type: 'text', text: 'Device locked' }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error locking device: ${e}` }],
-    };
+    return errorResult(e, 'Error locking device');
   }
 };
 
@@ -101,14 +103,13 @@ export const unlockDeviceTool: ToolCallback = async (): Promise<CallToolResult>
     const browser = getBrowser();
 
     await browser.unlock();
+    recordStep({ tool: 'unlock_device', code: ['await browser.unlock();'] });
 
     return {
       content: [{ type: 'text', text: 'Device unlocked' }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error unlocking device: ${e}` }],
-    };
+    return errorResult(e, 'Error unlocking device');
   }
 };
 
@@ -123,9 +124,7 @@ export const isDeviceLockedTool: ToolCallback = async (): Promise<CallToolResult
       content: [{ type: 'text', text: `Device is ${isLocked ? 'locked' : 'unlocked'}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error checking lock status: ${e}` }],
-    };
+    return errorResult(e, 'Error checking lock status');
   }
 };
 
@@ -135,14 +134,13 @@ export const shakeDeviceTool: ToolCallback = async (): Promise<CallToolResult> =
     const browser = getBrowser();
 
     await browser.shake();
+    recordStep({ tool: 'shake_device', code: ['await browser.shake();'] });
 
     return {
       content: [{ type: 'text', text: 'Device shaken' }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error shaking device: ${e}` }],
-    };
+    return errorResult(e, 'Error shaking device');
   }
 };
 
@@ -159,14 +157,13 @@ export const sendKeysTool: ToolCallback = async (args: {
     const { keys } = args;
 
     await browser.sendKeys(keys);
+    recordStep({ tool: 'send_keys', code: [`await browser.sendKeys(${toLiteral(keys)});`] });
 
     return {
       content: [{ type: 'text', text: `Sent keys: ${keys.join('')}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error sending keys: ${e}` }],
-    };
+    return errorResult(e, 'Error sending keys');
   }
 };
 
@@ -183,14 +180,13 @@ export const pressKeyCodeTool: ToolCallback = async (args: {
     const { keyCode } = args;
 
     await browser.pressKeyCode(keyCode);
+    recordStep({ tool: 'press_key_code', code: [`await browser.pressKeyCode(${keyCode});`] });
 
     return {
       content: [{ type: 'text', text: `Pressed key code: ${keyCode}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error pressing key code: ${e}` }],
-    };
+    return errorResult(e, 'Error pressing key code');
   }
 };
 
@@ -200,14 +196,13 @@ export const hideKeyboardTool: ToolCallback = async (): Promise<CallToolResult>
     const browser = getBrowser();
 
     await browser.hideKeyboard();
+    recordStep({ tool: 'hide_keyboard', code: ['await browser.hideKeyboard();'] });
 
     return {
       content: [{ type: 'text', text: 'Keyboard hidden' }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error hiding keyboard: ${e}` }],
-    };
+    return errorResult(e, 'Error hiding keyboard');
   }
 };
 
@@ -222,9 +217,7 @@ export const isKeyboardShownTool: ToolCallback = async (): Promise<CallToolResul
       content: [{ type: 'text', text: `Keyboard is ${isShown ? 'shown' : 'hidden'}` }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error checking keyboard status: ${e}` }],
-    };
+    return errorResult(e, 'Error checking keyboard status');
   }
 };
 
@@ -234,36 +227,38 @@ export const openNotificationsTool: ToolCallback = async (): Promise<CallToolRes
     const browser = getBrowser();
 
     await browser.openNotifications();
+    recordStep({ tool: 'open_notifications', code: ['await browser.openNotifications();'] });
 
     return {
       content: [{ type: 'text', text: 'Opened notifications panel' }],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error opening notifications: ${e}` }],
-    };
+    return errorResult(e, 'Error opening notifications');
   }
 };
 
 // Get Geolocation Tool
-export const getGeolocationTool: ToolCallback = async (): Promise<CallToolResult> => {
+export const getGeolocationToolArguments = {
+  ...outputFormatArgument,
+};
+
+export const getGeolocationToolOutput = {
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  altitude: z.number().optional(),
+  ...errorOutput,
+};
+
+export const getGeolocationTool: ToolCallback = async ({ format }: { format?: OutputFormat } = {}): Promise<CallToolResult> => {
   try {
     const browser = getBrowser();
 
     const location = await browser.getGeoLocation();
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Location:\n  Latitude: ${location.latitude}\n  Longitude: ${location.longitude}\n  Altitude: ${location.altitude || 'N/A'}`,
-        },
-      ],
-    };
+    const { latitude, longitude, altitude } = location;
+    return dataResult({ latitude, longitude, altitude }, { latitude, longitude, altitude }, format);
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error getting geolocation: ${e}` }],
-    };
+    return errorResult(e, 'Error getting geolocation');
   }
 };
 
@@ -284,6 +279,7 @@ export const setGeolocationTool: ToolCallback = async (args: {
     const { latitude, longitude, altitude } = args;
 
     await browser.setGeoLocation({ latitude, longitude, altitude });
+    recordStep({ tool: 'set_geolocation', code: [`await browser.setGeoLocation(${toLiteral({ latitude, longitude, altitude })});`] });
 
     return {
       content: [
@@ -294,8 +290,6 @@ export const setGeolocationTool: ToolCallback = async (args: {
       ],
     };
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error setting geolocation: ${e}` }],
-    };
+    return errorResult(e, 'Error setting geolocation');
   }
 };
@@ -0,0 +1,89 @@
+import {z} from 'zod';
+import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {CallToolResult} from '@modelcontextprotocol/sdk/types';
+import {getActiveSessionId} from './browser.tool';
+import {getRecordedSteps, RecordedStep, toLiteral} from '../utils/recorder';
+import {errorResult, toolErrorResult, ToolError} from '../utils/tool-result';
+import {redactSecrets} from '../utils/secrets';
+
+export const exportTestToolArguments = {
+  framework: z.enum(['mocha', 'jasmine']).optional().describe('Test framework of the WebdriverIO project. Default: mocha'),
+  suiteName: z.string().optional().describe('Name of the describe block. Default: "Recorded flow"'),
+  testName: z.string().optional().describe('Name of the test. Default: "replays the recorded steps"'),
+  outputPath: z.string().optional().describe('File to write the spec to (e.g. "./test/specs/login.e2e.js"). Returns the code if omitted'),
+};
+
+/**
+ * Render the recorded steps as a spec. Mocha and Jasmine share describe/it and the expect-webdriverio
+ * matchers in WebdriverIO, so only the header differs.
+ */
+const buildSpec = (steps: RecordedStep[], {framework, suiteName, testName, sessionId}: {
+  framework: 'mocha' | 'jasmine';
+  suiteName: string;
+  testName: string;
+  sessionId: string;
+}): string => {
+  const body = steps.flatMap((step) => step.code);
+  const envVars = [...new Set([...body.join('\n').matchAll(/process\.env(?:\.(\w+)|\['([^']+)'\])/g)].map((match) => match[1] ?? match[2]))];
+
+  return [
+    `// Recorded by webdriverio-mcp from session ${sessionId}`,
+    `// Runs with framework: '${framework}' in wdio.conf`,
+    ...(envVars.length > 0 ? [`// Set these environment variables before running: ${envVars.join(', ')}`] : []),
+    `describe(${toLiteral(suiteName)}, () => {`,
+    `  it(${toLiteral(testName)}, async () => {`,
+    ...body.map((line) => `    ${line}`),
+    '  });',
+    '});',
+    '',
+  ].join('\n');
+};
+
+export const exportTestTool: ToolCallback = async ({
+  framework = 'mocha',
+  suiteName = 'Recorded flow',
+  testName = 'replays the recorded steps',
+  outputPath,
+}: {
+  framework?: 'mocha' | 'jasmine';
+  suiteName?: string;
+  testName?: string;
+  outputPath?: string;
+}): Promise<CallToolResult> => {
+  try {
+    const sessionId = getActiveSessionId();
+    if (!sessionId) {
+      throw new ToolError('NO_SESSION', 'No active browser session');
+    }
+
+    const steps = getRecordedSteps(sessionId);
+    if (steps.length === 0) {
+      return toolErrorResult(
+        'INVALID_ARGUMENT',
+        `No actions recorded for session ${sessionId}`,
+        'Perform the flow with navigate, click_element, set_value, ... first, and check results with get_element_text or is_displayed.',
+      );
+    }
+
+    // Checked texts may contain secrets; tool output is redacted anyway, but written files are not
+    const spec = redactSecrets(buildSpec(steps, {framework, suiteName, testName, sessionId}));
+    const assertions = steps.filter((step) => step.assertion).length;
+    const summary = `${steps.length - assertions} actions, ${assertions} assertions`;
+
+    if (outputPath) {
+      const fs = await import('fs');
+      const path = await import('path');
+      await fs.promises.mkdir(path.dirname(outputPath), {recursive: true});
+      await fs.promises.writeFile(outputPath, spec, 'utf-8');
+      return {
+        content: [{type: 'text', text: `Test spec written to ${outputPath} (${summary})`}],
+      };
+    }
+
+    return {
+      content: [{type: 'text', text: `Test spec (${summary}):\n\n${spec}`}],
+    };
+  } catch (e) {
+    return errorResult(e, 'Error exporting test');
+  }
+};
@@ -1,24 +1,22 @@
 import {getBrowser} from './browser.tool';
+import {getServerConfig} from '../config/server.config';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
-
-const defaultTimeout: number = 3000;
+import {errorResult} from '../utils/tool-result';
 
 export const findElementToolArguments = {
   selector: z.string().describe('Value for the selector, in the form of css selector or xpath ("button.my-class" or "//button[@class=\'my-class\']")'),
   timeout: z.number().optional().describe('Maximum time to wait for element in milliseconds'),
 };
 
-export const findElementTool: ToolCallback = async ({selector, timeout = defaultTimeout}: { selector: string; timeout?: number }) => {
+export const findElementTool: ToolCallback = async ({selector, timeout = getServerConfig().timeouts.element}: { selector: string; timeout?: number }) => {
   try {
     const browser = getBrowser();
-    await browser.waitUntil(browser.$(selector).isExisting, {timeout});
+    await browser.waitUntil(browser.$(selector).isExisting, {timeout, timeoutMsg: `Element not found: ${selector}`});
     return {
       content: [{type: 'text', text: 'Element found'}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error finding element: ${e}`}],
-    };
+    return errorResult(e, 'Error finding element');
   }
 };
\ No newline at end of file
@@ -2,6 +2,16 @@ import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
 import {CallToolResult} from '@modelcontextprotocol/sdk/types';
 import {z} from 'zod';
 import {getBrowser} from './browser.tool';
+import {errorResult, toolErrorResult} from '../utils/tool-result';
+import {recordStep, toLiteral} from '../utils/recorder';
+
+/**
+ * Recorded code of a press-move-release gesture, with coordinates rounded like in the tool results
+ */
+const touchPerformCode = (startX: number, startY: number, endX: number, endY: number, duration: number) =>
+  `await browser.touchPerform([{action: 'press', options: {x: ${Math.round(startX)}, y: ${Math.round(startY)}}}, `
+  + `{action: 'wait', options: {ms: ${duration}}}, {action: 'moveTo', options: {x: ${Math.round(endX)}, y: ${Math.round(endY)}}}, `
+  + '{action: \'release\', options: {}}]);';
 
 // Tap Element Tool
 export const tapElementToolArguments = {
@@ -26,6 +36,7 @@ export const tapElementTool: ToolCallback = async (args: {
       // Tap on element by selector
       const element = await browser.$(selector);
       await element.tap();
+      recordStep({tool: 'tap_element', selector, code: [`await $(${toLiteral(selector)}).tap();`]});
       return {
         content: [{type: 'text', text: `Tapped element: ${selector}`}],
       };
@@ -36,18 +47,15 @@ export const tapElementTool: ToolCallback = async (args: {
         x,
         y,
       });
+      recordStep({tool: 'tap_element', code: [`await browser.touchAction({action: 'tap', x: ${x}, y: ${y}});`]});
       return {
         content: [{type: 'text', text: `Tapped at coordinates: (${x}, ${y})`}],
       };
     } else {
-      return {
-        content: [{type: 'text', text: 'Error: Must provide either selector or x,y coordinates'}],
-      };
+      return toolErrorResult('INVALID_ARGUMENT', 'Must provide either selector or x,y coordinates');
     }
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error tapping element: ${e}`}],
-    };
+    return errorResult(e, 'Error tapping element');
   }
 };
 
@@ -115,6 +123,7 @@ export const swipeTool: ToolCallback = async (args: {
       {action: 'moveTo', options: {x: endX, y: endY}},
       {action: 'release', options: {}},
     ]);
+    recordStep({tool: 'swipe', code: [touchPerformCode(centerX, centerY, endX, endY, duration)]});
 
     return {
       content: [
@@ -125,9 +134,7 @@ export const swipeTool: ToolCallback = async (args: {
       ],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error swiping: ${e}`}],
-    };
+    return errorResult(e, 'Error swiping');
   }
 };
 
@@ -160,6 +167,11 @@ export const longPressTool: ToolCallback = async (args: {
         {action: 'wait', ms: duration},
         {action: 'release'},
       ]);
+      recordStep({
+        tool: 'long_press',
+        selector,
+        code: [`await $(${toLiteral(selector)}).touchAction([{action: 'longPress'}, {action: 'wait', ms: ${duration}}, {action: 'release'}]);`],
+      });
       return {
         content: [{type: 'text', text: `Long pressed element: ${selector} for ${duration}ms`}],
       };
@@ -170,18 +182,18 @@ export const longPressTool: ToolCallback = async (args: {
         {action: 'wait', options: {ms: duration}},
         {action: 'release', options: {}},
       ]);
+      recordStep({
+        tool: 'long_press',
+        code: [`await browser.touchPerform([{action: 'press', options: {x: ${x}, y: ${y}}}, {action: 'wait', options: {ms: ${duration}}}, {action: 'release', options: {}}]);`],
+      });
       return {
         content: [{type: 'text', text: `Long pressed at coordinates: (${x}, ${y}) for ${duration}ms`}],
       };
     } else {
-      return {
-        content: [{type: 'text', text: 'Error: Must provide either selector or x,y coordinates'}],
-      };
+      return toolErrorResult('INVALID_ARGUMENT', 'Must provide either selector or x,y coordinates');
     }
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error long pressing: ${e}`}],
-    };
+    return errorResult(e, 'Error long pressing');
   }
 };
 
@@ -225,9 +237,7 @@ export const dragAndDropTool: ToolCallback = async (args: {
       startX = fromX;
       startY = fromY;
     } else {
-      return {
-        content: [{type: 'text', text: 'Error: Must provide either fromSelector or fromX,fromY coordinates'}],
-      };
+      return toolErrorResult('INVALID_ARGUMENT', 'Must provide either fromSelector or fromX,fromY coordinates');
     }
 
     // Get target coordinates
@@ -241,9 +251,7 @@ export const dragAndDropTool: ToolCallback = async (args: {
       endX = toX;
       endY = toY;
     } else {
-      return {
-        content: [{type: 'text', text: 'Error: Must provide either toSelector or toX,toY coordinates'}],
-      };
+      return toolErrorResult('INVALID_ARGUMENT', 'Must provide either toSelector or toX,toY coordinates');
     }
 
     // Perform drag and drop
@@ -253,6 +261,16 @@ export const dragAndDropTool: ToolCallback = async (args: {
       {action: 'moveTo', options: {x: endX, y: endY}},
       {action: 'release', options: {}},
     ]);
+    // Coordinates resolved from selectors are exported as measured, so the selectors are kept as a comment
+    const selectors = [fromSelector, toSelector].filter(Boolean);
+    recordStep({
+      tool: 'drag_and_drop',
+      selector: fromSelector,
+      code: [
+        ...(selectors.length > 0 ? [`// drag_and_drop: ${selectors.join(' -> ')}`] : []),
+        touchPerformCode(startX, startY, endX, endY, duration),
+      ],
+    });
 
     return {
       content: [
@@ -263,8 +281,6 @@ export const dragAndDropTool: ToolCallback = async (args: {
       ],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error dragging and dropping: ${e}`}],
-    };
+    return errorResult(e, 'Error dragging and dropping');
   }
 };
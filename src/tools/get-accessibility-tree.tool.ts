@@ -1,7 +1,11 @@
 import {getBrowser} from './browser.tool';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
 import {CallToolResult} from '@modelcontextprotocol/sdk/types';
-import { encode } from '@toon-format/toon'
+import {dataResult, outputFormatArgument} from '../utils/output-format';
+import {isChromiumBrowser} from '../config/browser.config';
+import {errorOutput, errorResult, toolErrorResult} from '../utils/tool-result';
+import {OutputFormat} from '../config/server.config';
+import {z} from 'zod';
 
 /**
  * Flatten a hierarchical accessibility tree into a flat list
@@ -52,45 +56,62 @@ function flattenAccessibilityTree(node: any, result: any[] = []): any[] {
   return result;
 }
 
-export const getAccessibilityTreeTool: ToolCallback = async (): Promise<CallToolResult> => {
-  try {
-    const browser = getBrowser();
+/**
+ * Get the flattened accessibility tree of the current page.
+ * Returns a message instead when no tree is available for the session.
+ */
+export async function getAccessibilityNodes(browser: WebdriverIO.Browser): Promise<{ nodes?: any[]; message?: string }> {
+  // Puppeteer relies on the Chrome DevTools Protocol, which only Chromium-based browsers expose
+  if (browser.isMobile || !isChromiumBrowser(browser.capabilities)) {
+    const current = browser.isMobile ? 'mobile app session' : `${browser.capabilities.browserName} session`;
+    return {
+      message: `Accessibility tree is only available in Chrome and Edge browser sessions (current: ${current})`,
+    };
+  }
 
-    // Get Puppeteer instance for native accessibility API
-    const puppeteer = await browser.getPuppeteer();
-    const pages = await puppeteer.pages();
+  // Get Puppeteer instance for native accessibility API
+  const puppeteer = await browser.getPuppeteer();
+  const pages = await puppeteer.pages();
 
-    if (pages.length === 0) {
-      return {
-        content: [{type: 'text', text: 'No active pages found'}],
-      };
-    }
+  if (pages.length === 0) {
+    return {message: 'No active pages found'};
+  }
 
-    const page = pages[0];
+  const page = pages[0];
 
-    // Get accessibility snapshot with interestingOnly filter
-    const snapshot = await page.accessibility.snapshot({
-      interestingOnly: true, // Filter to only interesting/semantic nodes
-    });
+  // Get accessibility snapshot with interestingOnly filter
+  const snapshot = await page.accessibility.snapshot({
+    interestingOnly: true, // Filter to only interesting/semantic nodes
+  });
 
-    if (!snapshot) {
-      return {
-        content: [{type: 'text', text: 'No accessibility tree available'}],
-      };
-    }
+  if (!snapshot) {
+    return {message: 'No accessibility tree available'};
+  }
+
+  // Flatten the hierarchical tree into a flat list
+  return {nodes: flattenAccessibilityTree(snapshot)};
+}
 
-    // Flatten the hierarchical tree into a flat list
-    const flattenedNodes = flattenAccessibilityTree(snapshot);
+export const getAccessibilityTreeToolArguments = {
+  ...outputFormatArgument,
+};
 
-    return {
-      content: [{
-        type: 'text',
-        text: encode(flattenedNodes),
-      }],
-    };
+export const getAccessibilityTreeToolOutput = {
+  nodes: z.array(z.record(z.any())).optional().describe('Accessibility nodes with role, name, state and selector'),
+  ...errorOutput,
+};
+
+export const getAccessibilityTreeTool: ToolCallback = async ({format}: { format?: OutputFormat } = {}): Promise<CallToolResult> => {
+  try {
+    const browser = getBrowser();
+    const {nodes, message} = await getAccessibilityNodes(browser);
+
+    if (!nodes) {
+      return toolErrorResult('UNSUPPORTED_PLATFORM', message, 'Use get_visible_elements instead.');
+    }
+
+    return dataResult(nodes, {nodes}, format);
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error getting accessibility tree: ${e}`}],
-    };
+    return errorResult(e, 'Error getting accessibility tree');
   }
 };
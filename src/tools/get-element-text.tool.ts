@@ -1,25 +1,25 @@
 import {getBrowser} from './browser.tool';
+import {getServerConfig} from '../config/server.config';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
-
-const defaultTimeout: number = 3000;
+import {errorResult} from '../utils/tool-result';
+import {recordStep, toLiteral} from '../utils/recorder';
 
 export const getElementTextToolArguments = {
   selector: z.string().describe('Value for the selector, in the form of css selector or xpath ("button.my-class" or "//button[@class=\'my-class\']")'),
   timeout: z.number().optional().describe('Maximum time to wait for element in milliseconds'),
 };
 
-export const getElementTextTool: ToolCallback = async ({selector, timeout = defaultTimeout}: { selector: string; timeout?: number }) => {
+export const getElementTextTool: ToolCallback = async ({selector, timeout = getServerConfig().timeouts.element}: { selector: string; timeout?: number }) => {
   try {
     const browser = getBrowser();
-    await browser.waitUntil(browser.$(selector).isExisting, {timeout});
+    await browser.waitUntil(browser.$(selector).isExisting, {timeout, timeoutMsg: `Element not found: ${selector}`});
     const text = await browser.$(selector).getText();
+    recordStep({tool: 'get_element_text', selector, assertion: true, code: [`await expect($(${toLiteral(selector)})).toHaveText(${toLiteral(text)});`]});
     return {
       content: [{type: 'text', text: `Text from element "${selector}": ${text}`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error getting element text: ${e}`}],
-    };
+    return errorResult(e, 'Error getting element text');
   }
 };
\ No newline at end of file
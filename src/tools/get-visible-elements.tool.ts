@@ -2,8 +2,10 @@ import { getBrowser } from './browser.tool';
 import getInteractableElements from '../scripts/get-interactable-elements';
 import { getMobileVisibleElements } from '../utils/mobile-elements';
 import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
-import { encode } from '@toon-format/toon';
+import { dataResult, outputFormatArgument } from '../utils/output-format';
 import { z } from 'zod';
+import { OutputFormat } from '../config/server.config';
+import { errorOutput, errorResult } from '../utils/tool-result';
 
 /**
  * Arguments for get_visible_elements tool
@@ -21,6 +23,12 @@ export const getVisibleElementsToolArguments = {
     .describe(
       'Include layout containers (ViewGroup, FrameLayout, ScrollView, etc). Default: false. Set to true to see all elements including layouts.',
     ),
+  ...outputFormatArgument,
+};
+
+export const getVisibleElementsToolOutput = {
+  elements: z.array(z.record(z.any())).optional().describe('Visible elements with their selectors, text and position'),
+  ...errorOutput,
 };
 
 /**
@@ -30,10 +38,11 @@ export const getVisibleElementsToolArguments = {
 export const getVisibleElementsTool: ToolCallback = async (args: {
   inViewportOnly?: boolean;
   includeContainers?: boolean;
+  format?: OutputFormat;
 }) => {
   try {
     const browser = getBrowser();
-    const { inViewportOnly = true, includeContainers = false } = args || {};
+    const { inViewportOnly = true, includeContainers = false, format } = args || {};
 
     // Handle mobile apps differently from web browsers
     if (browser.isAndroid || browser.isIOS) {
@@ -47,9 +56,7 @@ export const getVisibleElementsTool: ToolCallback = async (args: {
         elements = elements.filter((el) => el.isInViewport);
       }
 
-      return {
-        content: [{ type: 'text', text: encode(elements) }],
-      };
+      return dataResult(elements, { elements }, format);
     }
 
     // Web browser - use existing implementation
@@ -59,17 +66,11 @@ export const getVisibleElementsTool: ToolCallback = async (args: {
     // Filter by viewport for web if needed
     if (inViewportOnly) {
       const filteredElements = elements.filter((el: any) => el.isInViewport !== false);
-      return {
-        content: [{ type: 'text', text: encode(filteredElements) }],
-      };
+      return dataResult(filteredElements, { elements: filteredElements }, format);
     }
 
-    return {
-      content: [{ type: 'text', text: encode(elements) }],
-    };
+    return dataResult(elements, { elements }, format);
   } catch (e) {
-    return {
-      content: [{ type: 'text', text: `Error getting visible elements: ${e}` }],
-    };
+    return errorResult(e, 'Error getting visible elements');
   }
 };
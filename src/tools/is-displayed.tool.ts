@@ -1,25 +1,30 @@
 import {getBrowser} from './browser.tool';
+import {getServerConfig} from '../config/server.config';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
-
-const defaultTimeout: number = 3000;
+import {errorResult} from '../utils/tool-result';
+import {recordStep, toLiteral} from '../utils/recorder';
 
 export const isDisplayedToolArguments = {
   selector: z.string().describe('Value for the selector, in the form of css selector or xpath ("button.my-class" or "//button[@class=\'my-class\']")'),
   timeout: z.number().optional().describe('Maximum time to wait for element in milliseconds'),
 };
 
-export const isDisplayedTool: ToolCallback = async ({selector, timeout = defaultTimeout}: { selector: string; timeout?: number }) => {
+export const isDisplayedTool: ToolCallback = async ({selector, timeout = getServerConfig().timeouts.element}: { selector: string; timeout?: number }) => {
   try {
     const browser = getBrowser();
-    await browser.waitUntil(browser.$(selector).isExisting, {timeout});
+    await browser.waitUntil(browser.$(selector).isExisting, {timeout, timeoutMsg: `Element not found: ${selector}`});
     const displayed = await browser.$(selector).isDisplayed();
+    recordStep({
+      tool: 'is_displayed',
+      selector,
+      assertion: true,
+      code: [`await expect($(${toLiteral(selector)}))${displayed ? '' : '.not'}.toBeDisplayed();`],
+    });
     return {
       content: [{type: 'text', text: `Element with selector "${selector}" is ${displayed ? 'displayed' : 'not displayed'}`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error checking if element is displayed: ${e}`}],
-    };
+    return errorResult(e, 'Error checking if element is displayed');
   }
 };
\ No newline at end of file
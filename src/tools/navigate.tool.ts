@@ -1,6 +1,9 @@
 import {getBrowser} from './browser.tool';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {errorResult} from '../utils/tool-result';
+import {checkUrlPolicy, urlPolicyViolationResult} from '../utils/url-policy';
+import {recordStep, toLiteral} from '../utils/recorder';
 
 export const navigateToolArguments: { url: z.ZodString } = {
   url: z.string().nonempty('URL must be provided'),
@@ -8,14 +11,17 @@ export const navigateToolArguments: { url: z.ZodString } = {
 
 export const navigateTool: ToolCallback = async ({url}: { url: string }) => {
   try {
+    const blockedReason = await checkUrlPolicy(url);
+    if (blockedReason) {
+      return urlPolicyViolationResult(url, blockedReason);
+    }
     const browser = getBrowser();
     await browser.url(url);
+    recordStep({tool: 'navigate', code: [`await browser.url(${toLiteral(url)});`]});
     return {
       content: [{type: 'text', text: `Navigated to ${url}`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error navigating: ${e}`}],
-    };
+    return errorResult(e, 'Error navigating');
   }
 };
@@ -0,0 +1,158 @@
+import {getBrowser} from './browser.tool';
+import {z} from 'zod';
+import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {CallToolResult} from '@modelcontextprotocol/sdk/types';
+import type {remote} from 'webdriver';
+import {errorResult, toolErrorResult} from '../utils/tool-result';
+import {isUrlPolicyEnabled, setPolicyRequestHeaders} from '../utils/url-policy';
+
+/**
+ * Active network overrides per session, so a new call replaces the previous one
+ */
+const overrides: {
+  headers: Map<string, WebdriverIO.Mock>;
+  basicAuth: Map<string, { intercept: string; listener: (params: any) => void }>;
+} = {
+  headers: new Map(),
+  basicAuth: new Map(),
+};
+
+const bidiRequiredResult = (): CallToolResult => toolErrorResult(
+  'UNSUPPORTED_PLATFORM',
+  'Network interception requires a WebDriver BiDi session',
+  'Start a Chrome, Firefox or Edge session with start_browser.',
+);
+
+// Set Extra Headers Tool
+export const setExtraHeadersToolArguments = {
+  headers: z
+    .record(z.string())
+    .describe('Headers to add to (or override on) every request, e.g. {"X-Env": "staging"}. Pass {} to remove previously set headers'),
+  urlPattern: z
+    .string()
+    .optional()
+    .describe('Only apply to requests matching this URL pattern (e.g. "https://staging.example.com/**"). Default: all requests'),
+};
+
+export const setExtraHeadersTool: ToolCallback = async ({headers, urlPattern = '**'}: {
+  headers: Record<string, string>;
+  urlPattern?: string;
+}): Promise<CallToolResult> => {
+  try {
+    const browser = getBrowser();
+    if (!browser.isBidi) {
+      return bidiRequiredResult();
+    }
+
+    const {sessionId} = browser;
+    await overrides.headers.get(sessionId)?.restore();
+    overrides.headers.delete(sessionId);
+    await setPolicyRequestHeaders(sessionId, undefined);
+
+    const names = Object.keys(headers);
+    if (names.length === 0) {
+      return {
+        content: [{type: 'text', text: 'Extra headers removed'}],
+      };
+    }
+
+    if (isUrlPolicyEnabled()) {
+      await setPolicyRequestHeaders(sessionId, headers, urlPattern);
+      return {
+        content: [{type: 'text', text: `Extra headers set for ${urlPattern === '**' ? 'all requests' : urlPattern}: ${names.join(', ')}`}],
+      };
+    }
+
+    // Merge with the original request headers, as a headers overwrite replaces all of them
+    const mock = await browser.mock(urlPattern);
+    mock.request({
+      headers: (request) => ({
+        ...Object.fromEntries(request.request.headers.map((header) => [header.name, header.value.value])),
+        ...headers,
+      }),
+    });
+    overrides.headers.set(sessionId, mock);
+
+    return {
+      content: [{type: 'text', text: `Extra headers set for ${urlPattern === '**' ? 'all requests' : urlPattern}: ${names.join(', ')}`}],
+    };
+  } catch (e) {
+    return errorResult(e, 'Error setting extra headers');
+  }
+};
+
+type ContinueWithAuthParameters = remote.NetworkContinueWithAuthParameters
+  | (remote.NetworkContinueWithAuthNoCredentials & { request: remote.NetworkRequest });
+
+/**
+ * Answer an auth challenge. The generated BiDi command types only model the provideCredentials variant,
+ * so the command is typed here with the default and cancel variants added.
+ */
+const continueWithAuth = (browser: WebdriverIO.Browser, params: ContinueWithAuthParameters) =>
+  (browser.networkContinueWithAuth as (params: ContinueWithAuthParameters) => ReturnType<WebdriverIO.Browser['networkContinueWithAuth']>)
+    .call(browser, params);
+
+// Set Basic Auth Tool
+export const setBasicAuthToolArguments = {
+  username: z.string().optional().describe('Username for HTTP basic auth challenges. Omit username and password to remove credentials'),
+  password: z.string().optional().describe('Password for HTTP basic auth challenges'),
+  origin: z
+    .string()
+    .optional()
+    .describe('Only answer auth challenges from this origin (e.g. "https://staging.example.com"). Default: all origins'),
+};
+
+export const setBasicAuthTool: ToolCallback = async ({username, password, origin}: {
+  username?: string;
+  password?: string;
+  origin?: string;
+}): Promise<CallToolResult> => {
+  try {
+    const browser = getBrowser();
+    if (!browser.isBidi) {
+      return bidiRequiredResult();
+    }
+
+    const {sessionId} = browser;
+    const previous = overrides.basicAuth.get(sessionId);
+    if (previous) {
+      browser.off('network.authRequired', previous.listener);
+      await browser.networkRemoveIntercept({intercept: previous.intercept});
+      overrides.basicAuth.delete(sessionId);
+    }
+
+    if (username === undefined && password === undefined) {
+      return {
+        content: [{type: 'text', text: 'Basic auth credentials removed'}],
+      };
+    }
+
+    await browser.sessionSubscribe({events: ['network.authRequired']});
+    const {intercept} = await browser.networkAddIntercept({phases: ['authRequired']});
+    const allowedOrigin = origin ? new URL(origin).origin : undefined;
+
+    // Only answer challenges paused by our own intercept; other origins get the browser default
+    const listener = (params: any) => {
+      if (!params.intercepts?.includes(intercept)) {
+        return;
+      }
+      const request = params.request.request;
+      const continued = !allowedOrigin || new URL(params.request.url).origin === allowedOrigin
+        ? continueWithAuth(browser, {
+          request,
+          action: 'provideCredentials',
+          credentials: {type: 'password', username: username ?? '', password: password ?? ''},
+        })
+        : continueWithAuth(browser, {request, action: 'default'});
+      continued.catch((e) => console.error('Failed to answer basic auth challenge:', e));
+    };
+    browser.on('network.authRequired', listener);
+    overrides.basicAuth.set(sessionId, {intercept, listener});
+
+    return {
+      content: [{type: 'text', text: `Basic auth credentials set for user "${username ?? ''}" for ${allowedOrigin || 'all origins'}`}],
+    };
+  } catch (e) {
+    return errorResult(e, 'Error setting basic auth');
+  }
+};
@@ -0,0 +1,296 @@
+/**
+ * Central registry of all tools, grouped into profiles so a server can expose only the tools its users need
+ */
+
+import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {CallToolResult, ToolAnnotations} from '@modelcontextprotocol/sdk/types.js';
+import {z, ZodRawShape} from 'zod';
+import {getServerConfig} from '../config/server.config';
+import {ToolError} from '../utils/tool-result';
+import {withSessionLock} from '../utils/session-lock';
+import {withUrlPolicy} from '../utils/url-policy';
+import {
+  closeSessionTool,
+  closeSessionToolArguments,
+  getActiveSessionId,
+  listSessionsTool,
+  listSessionsToolArguments,
+  listSessionsToolOutput,
+  startBrowserTool,
+  runInSessionScope,
+  sessionIdArgument,
+  startBrowserToolArguments,
+  switchSessionTool,
+  switchSessionToolArguments,
+} from './browser.tool';
+import {navigateTool, navigateToolArguments} from './navigate.tool';
+import {clickTool, clickToolArguments, clickToolViaText} from './click.tool';
+import {setValueTool, setValueToolArguments} from './set-value.tool';
+import {findElementTool, findElementToolArguments} from './find-element.tool';
+import {getElementTextTool, getElementTextToolArguments} from './get-element-text.tool';
+import {isDisplayedTool, isDisplayedToolArguments} from './is-displayed.tool';
+import {scrollDownTool, scrollDownToolArguments} from './scroll-down.tool';
+import {scrollUpTool, scrollUpToolArguments} from './scroll-up.tool';
+import {getVisibleElementsTool, getVisibleElementsToolArguments, getVisibleElementsToolOutput} from './get-visible-elements.tool';
+import {takeScreenshotTool, takeScreenshotToolArguments} from './take-screenshot.tool';
+import {
+  deleteCookiesTool,
+  deleteCookiesToolArguments,
+  getCookiesTool,
+  getCookiesToolArguments,
+  getCookiesToolOutput,
+  setCookieTool,
+  setCookieToolArguments,
+} from './cookies.tool';
+import {
+  loadStorageStateTool,
+  loadStorageStateToolArguments,
+  saveStorageStateTool,
+  saveStorageStateToolArguments,
+} from './storage-state.tool';
+import {
+  setBasicAuthTool,
+  setBasicAuthToolArguments,
+  setExtraHeadersTool,
+  setExtraHeadersToolArguments,
+} from './network.tool';
+import {getAccessibilityTreeTool, getAccessibilityTreeToolArguments, getAccessibilityTreeToolOutput} from './get-accessibility-tree.tool';
+import {attachSessionTool, attachSessionToolArguments, startAppTool, startAppToolArguments} from './app-session.tool';
+import {
+  dragAndDropTool,
+  dragAndDropToolArguments,
+  longPressTool,
+  longPressToolArguments,
+  swipeTool,
+  swipeToolArguments,
+  tapElementTool,
+  tapElementToolArguments,
+} from './gestures.tool';
+import {
+  activateAppTool,
+  activateAppToolArguments,
+  getAppStateTool,
+  getAppStateToolArguments,
+  terminateAppTool,
+  terminateAppToolArguments,
+} from './app-actions.tool';
+import {
+  getContextsTool,
+  getContextsToolArguments,
+  getContextsToolOutput,
+  getCurrentContextTool,
+  switchContextTool,
+  switchContextToolArguments,
+} from './context.tool';
+import {
+  getDeviceInfoTool,
+  getDeviceInfoToolArguments,
+  getDeviceInfoToolOutput,
+  getGeolocationTool,
+  getGeolocationToolArguments,
+  getGeolocationToolOutput,
+  getOrientationTool,
+  hideKeyboardTool,
+  isDeviceLockedTool,
+  isKeyboardShownTool,
+  lockDeviceTool,
+  openNotificationsTool,
+  pressKeyCodeTool,
+  pressKeyCodeToolArguments,
+  rotateDeviceTool,
+  rotateDeviceToolArguments,
+  sendKeysTool,
+  sendKeysToolArguments,
+  setGeolocationTool,
+  setGeolocationToolArguments,
+  shakeDeviceTool,
+  unlockDeviceTool,
+} from './device.tool';
+import {getActionLogTool, getActionLogToolArguments, getActionLogToolOutput} from './action-log.tool';
+import {exportTestTool, exportTestToolArguments} from './export-test.tool';
+import {runStepsTool, runStepsToolArguments, runStepsToolOutput} from './run-steps.tool';
+import {batchTool, batchToolArguments, batchToolOutput} from './batch.tool';
+
+export type ToolProfile = 'web' | 'mobile';
+
+export const TOOL_PRESETS = ['web', 'mobile', 'all'] as const;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  args: ZodRawShape;
+  callback: ToolCallback<any>;
+  // Shape of the structuredContent returned by data tools
+  outputSchema?: ZodRawShape;
+  // Profiles the tool belongs to
+  profiles: ToolProfile[];
+  // Tool acts on a session; the optional sessionId argument targets a session other than the current one
+  session?: boolean;
+  // Tool only observes state, so it doesn't notify resource subscribers and stays available in read-only mode
+  readOnly?: boolean;
+  // Tool may remove or overwrite state (cookies, field values, app data, files), including arbitrary interactions
+  // that can trigger anything in the app (clicks, taps, key presses); clients may ask before calling it
+  destructive?: boolean;
+  // Repeating a call with the same arguments has no further effect
+  idempotent?: boolean;
+  // Tool reaches browsers, devices or the web (default); false for tools working only with the server's own state
+  openWorld?: boolean;
+  // Tool starts, closes or switches sessions
+  sessionsChanged?: boolean;
+  // Tool can run while another call uses the same session, as it doesn't send WebDriver commands to it
+  concurrent?: boolean;
+}
+
+const WEB: ToolProfile[] = ['web'];
+const MOBILE: ToolProfile[] = ['mobile'];
+const ALL: ToolProfile[] = ['web', 'mobile'];
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  // Browser and App Session Management
+  {name: 'start_browser', description: 'starts a browser session (Chrome, Firefox or Edge) and sets it to the current state', args: startBrowserToolArguments, callback: startBrowserTool, profiles: WEB, sessionsChanged: true},
+  {name: 'start_app_session', description: 'starts a mobile app session (iOS/Android) via Appium', args: startAppToolArguments, callback: startAppTool, profiles: MOBILE, sessionsChanged: true, destructive: true},
+  {name: 'attach_session', description: 'attaches to an existing WebDriver/Appium session by sessionId and sets it to the current state', args: attachSessionToolArguments, callback: attachSessionTool, profiles: ALL, sessionsChanged: true},
+  {name: 'close_session', description: 'closes or detaches from the current browser or app session', args: closeSessionToolArguments, callback: closeSessionTool, profiles: ALL, session: true, sessionsChanged: true, destructive: true, idempotent: true},
+  {name: 'list_sessions', description: 'lists all active browser and app sessions with their type, capabilities and current URL or context', args: listSessionsToolArguments, outputSchema: listSessionsToolOutput, callback: listSessionsTool, profiles: ALL, readOnly: true, openWorld: false},
+  {name: 'switch_session', description: 'switches the current session to another active browser or app session', args: switchSessionToolArguments, callback: switchSessionTool, profiles: ALL, sessionsChanged: true, idempotent: true, openWorld: false},
+  {name: 'get_action_log', description: 'returns the most recent tool calls of the current session with their arguments, timing and outcome', args: getActionLogToolArguments, outputSchema: getActionLogToolOutput, callback: getActionLogTool, profiles: ALL, session: true, readOnly: true, concurrent: true, openWorld: false},
+  {name: 'export_test', description: 'exports the recorded actions and checks of the current session as a WebdriverIO Mocha/Jasmine test spec', args: exportTestToolArguments, callback: exportTestTool, profiles: ALL, session: true, concurrent: true, destructive: true, idempotent: true, openWorld: false},
+  {name: 'run_steps', description: 'runs a list of tool calls (JSON or YAML, inline or from a file) with optional expectations and returns a pass/fail report per step', args: runStepsToolArguments, outputSchema: runStepsToolOutput, callback: runStepsTool, profiles: ALL, session: true, destructive: true},
+  {name: 'batch', description: 'runs several actions (click, set_value, tap, swipe, wait, navigate, press_key) in one call, optionally followed by a get_visible_elements snapshot', args: batchToolArguments, outputSchema: batchToolOutput, callback: batchTool, profiles: ALL, session: true, destructive: true},
+  {name: 'navigate', description: 'navigates to a URL', args: navigateToolArguments, callback: navigateTool, profiles: ALL, session: true, idempotent: true},
+
+  {name: 'get_visible_elements', description: 'get a list of visible (in viewport & displayed) elements on the page, must prefer this to take_screenshot for interactions', args: getVisibleElementsToolArguments, outputSchema: getVisibleElementsToolOutput, callback: getVisibleElementsTool, profiles: ALL, session: true, readOnly: true},
+  {name: 'get_accessibility', description: 'gets accessibility tree snapshot with semantic information about page elements (roles, names, states)', args: getAccessibilityTreeToolArguments, outputSchema: getAccessibilityTreeToolOutput, callback: getAccessibilityTreeTool, profiles: WEB, session: true, readOnly: true},
+
+  {name: 'scroll_down', description: 'scrolls the page down by specified pixels', args: scrollDownToolArguments, callback: scrollDownTool, profiles: ALL, session: true},
+  {name: 'scroll_up', description: 'scrolls the page up by specified pixels', args: scrollUpToolArguments, callback: scrollUpTool, profiles: ALL, session: true},
+
+  {name: 'find_element', description: 'finds an element', args: findElementToolArguments, callback: findElementTool, profiles: ALL, session: true, readOnly: true},
+  {name: 'click_element', description: 'clicks an element', args: clickToolArguments, callback: clickTool, profiles: ALL, session: true, destructive: true},
+  {name: 'click_via_text', description: 'clicks an element', args: clickToolArguments, callback: clickToolViaText, profiles: ALL, session: true, destructive: true},
+  {name: 'set_value', description: 'set value to an element, aka typing', args: setValueToolArguments, callback: setValueTool, profiles: ALL, session: true, destructive: true, idempotent: true},
+
+  {name: 'get_element_text', description: 'gets the text content of an element', args: getElementTextToolArguments, callback: getElementTextTool, profiles: ALL, session: true, readOnly: true},
+  {name: 'is_displayed', description: 'checks if an element is displayed', args: isDisplayedToolArguments, callback: isDisplayedTool, profiles: ALL, session: true, readOnly: true},
+
+  {name: 'take_screenshot', description: 'captures a screenshot of the current page', args: takeScreenshotToolArguments, callback: takeScreenshotTool, profiles: ALL, session: true, readOnly: true},
+
+  {name: 'get_cookies', description: 'gets all cookies or a specific cookie by name', args: getCookiesToolArguments, outputSchema: getCookiesToolOutput, callback: getCookiesTool, profiles: WEB, session: true, readOnly: true},
+  {name: 'set_cookie', description: 'sets a cookie with specified name, value, and optional attributes', args: setCookieToolArguments, callback: setCookieTool, profiles: WEB, session: true, idempotent: true},
+  {name: 'delete_cookies', description: 'deletes all cookies or a specific cookie by name', args: deleteCookiesToolArguments, callback: deleteCookiesTool, profiles: WEB, session: true, destructive: true, idempotent: true},
+  {name: 'save_storage_state', description: 'saves cookies, localStorage and sessionStorage to a JSON file for reuse in later sessions', args: saveStorageStateToolArguments, callback: saveStorageStateTool, profiles: WEB, session: true, destructive: true, idempotent: true},
+  {name: 'load_storage_state', description: 'restores cookies, localStorage and sessionStorage from a JSON file written by save_storage_state', args: loadStorageStateToolArguments, callback: loadStorageStateTool, profiles: WEB, session: true, destructive: true, idempotent: true},
+
+  // Network Settings (Web)
+  {name: 'set_extra_headers', description: 'adds or overrides HTTP headers on every request of the browser session', args: setExtraHeadersToolArguments, callback: setExtraHeadersTool, profiles: WEB, session: true, idempotent: true},
+  {name: 'set_basic_auth', description: 'answers HTTP basic auth challenges with the given credentials', args: setBasicAuthToolArguments, callback: setBasicAuthTool, profiles: WEB, session: true, idempotent: true},
+
+  // Mobile Gesture Tools
+  {name: 'tap_element', description: 'taps an element by selector or coordinates (mobile)', args: tapElementToolArguments, callback: tapElementTool, profiles: MOBILE, session: true, destructive: true},
+  {name: 'swipe', description: 'performs a swipe gesture in specified direction (mobile)', args: swipeToolArguments, callback: swipeTool, profiles: MOBILE, session: true, destructive: true},
+  {name: 'long_press', description: 'performs a long press on element or coordinates (mobile)', args: longPressToolArguments, callback: longPressTool, profiles: MOBILE, session: true, destructive: true},
+  {name: 'drag_and_drop', description: 'drags from one location to another (mobile)', args: dragAndDropToolArguments, callback: dragAndDropTool, profiles: MOBILE, session: true, destructive: true},
+
+  // App Lifecycle Management
+  {name: 'get_app_state', description: 'gets the state of an app (not installed, not running, background, foreground)', args: getAppStateToolArguments, callback: getAppStateTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'activate_app', description: 'activates/brings an app to foreground', args: activateAppToolArguments, callback: activateAppTool, profiles: MOBILE, session: true, idempotent: true},
+  {name: 'terminate_app', description: 'terminates a running app', args: terminateAppToolArguments, callback: terminateAppTool, profiles: MOBILE, session: true, destructive: true, idempotent: true},
+
+  // Context Switching (Native/WebView)
+  {name: 'get_contexts', description: 'lists available contexts (NATIVE_APP, WEBVIEW)', args: getContextsToolArguments, outputSchema: getContextsToolOutput, callback: getContextsTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'get_current_context', description: 'shows the currently active context', args: {}, callback: getCurrentContextTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'switch_context', description: 'switches between native and webview contexts', args: switchContextToolArguments, callback: switchContextTool, profiles: MOBILE, session: true, idempotent: true},
+
+  // Device Interaction
+  {name: 'get_device_info', description: 'gets device information (platform, version, screen size)', args: getDeviceInfoToolArguments, outputSchema: getDeviceInfoToolOutput, callback: getDeviceInfoTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'rotate_device', description: 'rotates device to portrait or landscape orientation', args: rotateDeviceToolArguments, callback: rotateDeviceTool, profiles: MOBILE, session: true, idempotent: true},
+  {name: 'get_orientation', description: 'gets current device orientation', args: {}, callback: getOrientationTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'lock_device', description: 'locks the device screen', args: {}, callback: lockDeviceTool, profiles: MOBILE, session: true, destructive: true, idempotent: true},
+  {name: 'unlock_device', description: 'unlocks the device screen', args: {}, callback: unlockDeviceTool, profiles: MOBILE, session: true, idempotent: true},
+  {name: 'is_device_locked', description: 'checks if device is locked', args: {}, callback: isDeviceLockedTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'shake_device', description: 'shakes the device (iOS only)', args: {}, callback: shakeDeviceTool, profiles: MOBILE, session: true},
+  {name: 'send_keys', description: 'sends keys to the app (Android only)', args: sendKeysToolArguments, callback: sendKeysTool, profiles: MOBILE, session: true, destructive: true},
+  {name: 'press_key_code', description: 'presses an Android key code (Android only)', args: pressKeyCodeToolArguments, callback: pressKeyCodeTool, profiles: MOBILE, session: true, destructive: true},
+  {name: 'hide_keyboard', description: 'hides the on-screen keyboard', args: {}, callback: hideKeyboardTool, profiles: MOBILE, session: true, idempotent: true},
+  {name: 'is_keyboard_shown', description: 'checks if keyboard is visible', args: {}, callback: isKeyboardShownTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'open_notifications', description: 'opens the notifications panel (Android only)', args: {}, callback: openNotificationsTool, profiles: MOBILE, session: true, idempotent: true},
+  {name: 'get_geolocation', description: 'gets current device geolocation', args: getGeolocationToolArguments, outputSchema: getGeolocationToolOutput, callback: getGeolocationTool, profiles: MOBILE, session: true, readOnly: true},
+  {name: 'set_geolocation', description: 'sets device geolocation (latitude, longitude, altitude)', args: setGeolocationToolArguments, callback: setGeolocationTool, profiles: MOBILE, session: true, idempotent: true},
+];
+
+/**
+ * MCP annotations derived from the tool flags, so clients can auto-approve safe calls and confirm destructive ones
+ */
+export const getToolAnnotations = ({readOnly, destructive, idempotent, openWorld}: ToolDefinition): ToolAnnotations => ({
+  readOnlyHint: readOnly === true,
+  destructiveHint: !readOnly && destructive === true,
+  idempotentHint: readOnly === true || idempotent === true,
+  openWorldHint: openWorld !== false,
+});
+
+/**
+ * Resolve a preset ("web", "mobile", "all") or a tool name to tool names
+ */
+const resolveToolToken = (token: string): string[] => {
+  if (token === 'all') {
+    return TOOL_DEFINITIONS.map((tool) => tool.name);
+  }
+  if (token === 'web' || token === 'mobile') {
+    return TOOL_DEFINITIONS.filter((tool) => tool.profiles.includes(token)).map((tool) => tool.name);
+  }
+  if (TOOL_DEFINITIONS.some((tool) => tool.name === token)) {
+    return [token];
+  }
+  throw new Error(`Unknown tool or preset "${token}" in tool selection. Presets: ${TOOL_PRESETS.join(', ')}`);
+};
+
+/**
+ * Select the tools to register from a comma-separated list of presets and tool names.
+ * Names prefixed with "-" are excluded; "+" (or no prefix) includes them.
+ * Without any includes, selection starts from all tools, e.g. "-shake_device,-open_notifications".
+ *
+ * In read-only mode only tools that observe state are kept, plus the session management tools needed to reach a session
+ * that are not destructive: start_app_session (which may reset the app) and close_session are dropped.
+ *
+ * Examples: "web", "mobile,navigate", "web,-set_basic_auth", "start_browser,navigate,click_element"
+ */
+export function selectTools(selection?: string, {readOnly = false}: { readOnly?: boolean } = {}): ToolDefinition[] {
+  const tokens = (selection ?? '').split(',').map((token) => token.trim()).filter(Boolean);
+  const includes = tokens.filter((token) => !token.startsWith('-')).map((token) => token.replace(/^\+/, ''));
+  const excludes = tokens.filter((token) => token.startsWith('-')).map((token) => token.slice(1));
+
+  const enabled = new Set((includes.length > 0 ? includes : ['all']).flatMap(resolveToolToken));
+  for (const name of excludes.flatMap(resolveToolToken)) {
+    enabled.delete(name);
+  }
+
+  return TOOL_DEFINITIONS.filter((tool) => enabled.has(tool.name) && (!readOnly || tool.readOnly || (tool.sessionsChanged && !tool.destructive)));
+}
+
+/**
+ * Call an enabled tool from within another tool (e.g. run_steps), validating its arguments like the MCP server does.
+ * The calling tool already holds the session lock, so the callback runs without it and isn't logged separately.
+ * A sessionId argument naming another session runs the call in that session, queued behind its lock.
+ */
+export async function callTool(name: string, args: Record<string, unknown>, extra: any): Promise<CallToolResult> {
+  const {tools, readOnly} = getServerConfig();
+  const tool = selectTools(tools, {readOnly}).find((definition) => definition.name === name);
+  if (!tool) {
+    throw new ToolError('INVALID_ARGUMENT', `Unknown or disabled tool "${name}"`, 'Only tools enabled on this server can be used.');
+  }
+
+  // Strict, so misspelled arguments fail instead of being ignored
+  const parsed = z.object(tool.session ? {...tool.args, ...sessionIdArgument} : tool.args).strict().safeParse(args ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ToolError('INVALID_ARGUMENT', `Invalid arguments for ${name}: ${issues.join('; ')}`);
+  }
+
+  const {sessionId, ...toolArgs} = parsed.data as Record<string, unknown> & { sessionId?: string };
+  const callback = tool.callback as ToolCallback<ZodRawShape>;
+  if (!sessionId || sessionId === getActiveSessionId()) {
+    return callback(toolArgs, extra);
+  }
+  const otherSessionCallback = (tool.concurrent ? callback : withSessionLock(withUrlPolicy(callback))) as ToolCallback<ZodRawShape>;
+  return runInSessionScope(extra, sessionId, () => otherSessionCallback(toolArgs, extra));
+}
@@ -0,0 +1,208 @@
+import {z} from 'zod';
+import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {CallToolResult} from '@modelcontextprotocol/sdk/types';
+import {parse as parseYaml} from 'yaml';
+import {captureScreenshot} from './take-screenshot.tool';
+import {dataResult, outputFormatArgument} from '../utils/output-format';
+import {classifyError, errorOutput, errorResult, ToolError, toolErrorResult} from '../utils/tool-result';
+import {OutputFormat} from '../config/server.config';
+
+const stepSchema = z.object({
+  name: z.string().optional().describe('Label shown in the report'),
+  tool: z.string().describe('Tool to call, e.g. "click_element"'),
+  args: z.record(z.any()).optional().describe('Arguments of the tool'),
+  expect: z
+    .object({
+      success: z.boolean().optional().describe('Whether the call should succeed. Default: true'),
+      contains: z.string().optional().describe('Text the tool result must contain'),
+      matches: z.string().optional().describe('Regular expression the tool result must match'),
+    })
+    .strict()
+    .optional(),
+}).strict();
+
+type Step = z.infer<typeof stepSchema>;
+
+type FailureMode = 'stop' | 'continue';
+
+// A step file is a list of steps, or an object with the steps and the failure mode
+const stepFileSchema = z.union([
+  z.array(stepSchema),
+  z.object({
+    onFailure: z.enum(['stop', 'continue']).optional(),
+    steps: z.array(stepSchema),
+  }).strict(),
+]);
+
+// Tools that would nest step runs
+const EXCLUDED_TOOLS = ['run_steps'];
+
+// Result text kept per step in the report
+const MAX_MESSAGE_LENGTH = 200;
+
+export const runStepsToolArguments = {
+  steps: z
+    .union([z.array(stepSchema), z.string()])
+    .optional()
+    .describe('Steps to run: an array of {tool, args, expect}, or the same as JSON or YAML text'),
+  filePath: z.string().optional().describe('JSON or YAML step file to run instead of steps'),
+  onFailure: z
+    .enum(['stop', 'continue'])
+    .optional()
+    .describe('Stop at the first failed step, or run the remaining ones. Default: the step file setting, else stop'),
+  screenshotPath: z.string().optional().describe('Where to save the screenshot taken at the first failure. Returned as image if omitted'),
+  ...outputFormatArgument,
+};
+
+const stepReportSchema = z.object({
+  index: z.number(),
+  name: z.string().optional(),
+  tool: z.string(),
+  status: z.enum(['passed', 'failed', 'skipped']),
+  durationMs: z.number(),
+  message: z.string().optional(),
+});
+
+type StepReport = z.infer<typeof stepReportSchema>;
+
+export const runStepsToolOutput = {
+  passed: z.number().optional(),
+  failed: z.number().optional(),
+  skipped: z.number().optional(),
+  steps: z.array(stepReportSchema).optional().describe('Report per step, in order'),
+  screenshot: z.string().optional().describe('Path of the screenshot taken at the first failure'),
+  ...errorOutput,
+};
+
+const resultText = (result: CallToolResult): string => (result.content ?? [])
+  .map((item) => item.type === 'text' ? item.text : '')
+  .filter(Boolean)
+  .join('\n');
+
+const truncate = (text: string) => text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH)}...` : text;
+
+/**
+ * Load steps from the arguments or a step file. Strings are parsed as YAML, which includes JSON.
+ */
+const loadSteps = async (steps: Step[] | string | undefined, filePath: string | undefined): Promise<{ steps: Step[]; onFailure?: FailureMode }> => {
+  let document: unknown = steps;
+  if (filePath) {
+    const fs = await import('fs');
+    document = await fs.promises.readFile(filePath, 'utf-8');
+  }
+  if (typeof document === 'string') {
+    try {
+      document = parseYaml(document);
+    } catch (e) {
+      throw new ToolError('INVALID_ARGUMENT', `Invalid steps: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const parsed = stepFileSchema.safeParse(document);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ToolError('INVALID_ARGUMENT', `Invalid steps: ${issues.join('; ')}`);
+  }
+  return Array.isArray(parsed.data) ? {steps: parsed.data} : parsed.data as { steps: Step[]; onFailure?: FailureMode };
+};
+
+/**
+ * Run one step and check its expectations. Resolves to the result text, plus a failure message if it failed.
+ */
+const runStep = async (step: Step, extra: any): Promise<{ failure?: string; text: string }> => {
+  if (EXCLUDED_TOOLS.includes(step.tool)) {
+    return {failure: `${step.tool} cannot be used as a step`, text: ''};
+  }
+
+  let result: CallToolResult;
+  try {
+    // Imported lazily, as the registry imports this tool
+    const {callTool} = await import('./registry');
+    result = await callTool(step.tool, step.args ?? {}, extra);
+  } catch (e) {
+    const {code, message} = classifyError(e);
+    return {failure: `${code}: ${message}`, text: ''};
+  }
+
+  const text = resultText(result);
+  const {success = true, contains, matches} = step.expect ?? {};
+  if (success && result.isError) {
+    return {failure: text, text};
+  }
+  if (!success && !result.isError) {
+    return {failure: `Expected the call to fail, but it succeeded: ${text}`, text};
+  }
+  if (contains !== undefined && !text.includes(contains)) {
+    return {failure: `Expected the result to contain "${contains}": ${text}`, text};
+  }
+  let pattern: RegExp | undefined;
+  try {
+    pattern = matches !== undefined ? new RegExp(matches) : undefined;
+  } catch {
+    return {failure: `Invalid expect.matches pattern: ${matches}`, text};
+  }
+  if (pattern && !pattern.test(text)) {
+    return {failure: `Expected the result to match /${matches}/: ${text}`, text};
+  }
+  return {text};
+};
+
+export const runStepsTool: ToolCallback = async ({steps, filePath, onFailure, screenshotPath, format}: {
+  steps?: Step[] | string;
+  filePath?: string;
+  onFailure?: FailureMode;
+  screenshotPath?: string;
+  format?: OutputFormat;
+}, extra): Promise<CallToolResult> => {
+  try {
+    if ((steps === undefined) === (filePath === undefined)) {
+      return toolErrorResult('INVALID_ARGUMENT', 'Provide either steps or filePath');
+    }
+
+    const loaded = await loadSteps(steps, filePath);
+    const failureMode = onFailure ?? loaded.onFailure ?? 'stop';
+    const reports: StepReport[] = [];
+    let screenshot: { data: string; path?: string } | undefined;
+    let stopped = false;
+
+    for (const [index, step] of loaded.steps.entries()) {
+      // Unnamed steps leave name out, rather than reporting it as null
+      const report: StepReport = {index: index + 1, ...(step.name !== undefined && {name: step.name}), tool: step.tool, status: 'skipped', durationMs: 0};
+      reports.push(report);
+      if (stopped) {
+        continue;
+      }
+
+      const startedAt = Date.now();
+      const {failure, text} = await runStep(step, extra);
+      report.durationMs = Date.now() - startedAt;
+      report.status = failure === undefined ? 'passed' : 'failed';
+      report.message = truncate(failure ?? text.split('\n')[0]);
+
+      if (failure !== undefined) {
+        if (screenshot === undefined) {
+          screenshot = await captureScreenshot(screenshotPath);
+        }
+        stopped = failureMode === 'stop';
+      }
+    }
+
+    const count = (status: StepReport['status']) => reports.filter((report) => report.status === status).length;
+    const summary = {passed: count('passed'), failed: count('failed'), skipped: count('skipped')};
+    const result = dataResult(reports, {...summary, steps: reports, screenshot: screenshot?.path}, format);
+
+    result.content.unshift({
+      type: 'text',
+      text: `${summary.failed > 0 ? 'FAILED' : 'PASSED'}: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped`,
+    });
+    if (screenshot?.path) {
+      result.content.push({type: 'text', text: `Screenshot of the first failure saved to ${screenshot.path}`});
+    } else if (screenshot) {
+      result.content.push({type: 'image', data: screenshot.data, mimeType: 'image/png'});
+    }
+    return result;
+  } catch (e) {
+    return errorResult(e, 'Error running steps');
+  }
+};
+
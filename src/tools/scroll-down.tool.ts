@@ -1,6 +1,8 @@
 import {getBrowser} from './browser.tool';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {errorResult} from '../utils/tool-result';
+import {recordStep} from '../utils/recorder';
 
 export const scrollDownToolArguments = {
   pixels: z.number().optional().default(500),
@@ -12,12 +14,11 @@ export const scrollDownTool: ToolCallback = async ({pixels = 500}: { pixels?: nu
     await browser.execute((scrollPixels) => {
       window.scrollBy(0, scrollPixels);
     }, pixels);
+    recordStep({tool: 'scroll_down', code: [`await browser.execute((scrollPixels) => window.scrollBy(0, scrollPixels), ${pixels});`]});
     return {
       content: [{type: 'text', text: `Scrolled down ${pixels} pixels`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error scrolling down: ${e}`}],
-    };
+    return errorResult(e, 'Error scrolling down');
   }
 };
\ No newline at end of file
@@ -1,6 +1,8 @@
 import {getBrowser} from './browser.tool';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {errorResult} from '../utils/tool-result';
+import {recordStep} from '../utils/recorder';
 
 export const scrollUpToolArguments = {
   pixels: z.number().optional().default(500),
@@ -12,12 +14,11 @@ export const scrollUpTool: ToolCallback = async ({pixels = 500}: { pixels?: numb
     await browser.execute((scrollPixels) => {
       window.scrollBy(0, -scrollPixels);
     }, pixels);
+    recordStep({tool: 'scroll_up', code: [`await browser.execute((scrollPixels) => window.scrollBy(0, -scrollPixels), ${pixels});`]});
     return {
       content: [{type: 'text', text: `Scrolled up ${pixels} pixels`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error scrolling up: ${e}`}],
-    };
+    return errorResult(e, 'Error scrolling up');
   }
 };
\ No newline at end of file
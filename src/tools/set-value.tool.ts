@@ -1,36 +1,76 @@
 import {getBrowser} from './browser.tool';
+import {getServerConfig} from '../config/server.config';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
-
-const defaultTimeout: number = 3000;
+import {errorResult, toolErrorResult} from '../utils/tool-result';
+import {registerSecretValue, resolveSecret} from '../utils/secrets';
+import {recordStep, toLiteral} from '../utils/recorder';
 
 export const setValueToolArguments = {
   selector: z.string().describe('Value for the selector, in the form of css selector or xpath ("button.my-class" or "//button[@class=\'my-class\']")'),
-  value: z.string().describe('Text to enter into the element'),
+  value: z.string().optional().describe('Text to enter into the element'),
+  secretRef: z
+    .string()
+    .optional()
+    .describe('Enter a secret resolved on the server instead of value: a secrets file entry or WDIO_MCP_SECRET_* environment variable name ("LOGIN_PASSWORD", "file:LOGIN_PASSWORD", "env:WDIO_MCP_SECRET_LOGIN_PASSWORD"). The secret is never echoed'),
   scrollToView: z.boolean().optional().describe('Whether to scroll the element into view before typing').default(true),
   timeout: z.number().optional().describe('Maximum time to wait for element in milliseconds'),
 };
 
-export const setValueTool: ToolCallback = async ({selector, value, scrollToView = true, timeout = defaultTimeout}: {
+/**
+ * Password fields on the web, secure text fields on iOS and password fields on Android
+ */
+const isSecureField = async (element: WebdriverIO.Element, isAndroid: boolean): Promise<boolean> => {
+  // Attributes unknown to the current platform or context throw instead of returning null
+  const getAttribute = (name: string) => element.getAttribute(name).catch((): null => null);
+  if (isAndroid && await getAttribute('password') === 'true') {
+    return true;
+  }
+  const type = await getAttribute('type');
+  return type === 'password' || type === 'XCUIElementTypeSecureTextField';
+};
+
+export const setValueTool: ToolCallback = async ({selector, value, secretRef, scrollToView = true, timeout = getServerConfig().timeouts.element}: {
   selector: string;
-  value: string;
+  value?: string;
+  secretRef?: string;
   scrollToView?: boolean;
   timeout?: number
 }) => {
   try {
+    if ((value === undefined) === (secretRef === undefined)) {
+      return toolErrorResult('INVALID_ARGUMENT', 'Provide either value or secretRef');
+    }
+
     const browser = getBrowser();
-    await browser.waitUntil(browser.$(selector).isExisting, {timeout});
+    const text = secretRef !== undefined ? await resolveSecret(secretRef) : value;
+    await browser.waitUntil(browser.$(selector).isExisting, {timeout, timeoutMsg: `Element not found: ${selector}`});
     if (scrollToView) {
       await browser.$(selector).scrollIntoView({ block: 'center', inline: 'center' });
     }
+    const secureField = await isSecureField(await browser.$(selector).getElement(), browser.isAndroid);
+    if (secureField) {
+      registerSecretValue(text);
+    }
     await browser.$(selector).clearValue();
-    await browser.$(selector).setValue(value);
+    await browser.$(selector).setValue(text);
+
+    // Secrets and password values are read from the environment of the exported test
+    const secretName = secretRef?.replace(/^(env|file):/, '');
+    const valueCode = secretRef !== undefined
+      ? (/^\w+$/.test(secretName) ? `process.env.${secretName}` : `process.env[${toLiteral(secretName)}]`)
+      : secureField ? 'process.env.PASSWORD' : toLiteral(value);
+    recordStep({tool: 'set_value', selector, code: [`await $(${toLiteral(selector)}).setValue(${valueCode});`]});
+
+    if (secretRef !== undefined) {
+      return {
+        content: [{type: 'text', text: `Secret "${secretRef}" entered into element`}],
+      };
+    }
     return {
-      content: [{type: 'text', text: `Text "${value}" entered into element`}],
+      content: [{type: 'text', text: secureField ? 'Masked text entered into password field' : `Text "${value}" entered into element`}],
     };
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error entering text: ${e}`}],
-    };
+    return errorResult(e, 'Error entering text');
   }
-};
\ No newline at end of file
+};
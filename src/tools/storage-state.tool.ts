@@ -0,0 +1,176 @@
+import {getBrowser} from './browser.tool';
+import {z} from 'zod';
+import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {CallToolResult} from '@modelcontextprotocol/sdk/types';
+import {errorResult, toolErrorResult} from '../utils/tool-result';
+import {checkUrlPolicy, urlPolicyViolationResult} from '../utils/url-policy';
+
+/**
+ * Serialized browser storage: cookies plus localStorage/sessionStorage per origin
+ */
+interface StorageState {
+  cookies: any[];
+  origins: Array<{
+    origin: string;
+    localStorage: Record<string, string>;
+    sessionStorage: Record<string, string>;
+  }>;
+}
+
+const isHttpUrl = (url: string) => /^https?:\/\//i.test(url);
+
+/**
+ * Read localStorage and sessionStorage of the page currently loaded in the browser
+ */
+const readWebStorage = async (browser: WebdriverIO.Browser) => browser.execute(() => {
+  const dump = (storage: Storage) => {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      entries[key] = storage.getItem(key);
+    }
+    return entries;
+  };
+  return {
+    origin: window.location.origin,
+    localStorage: dump(window.localStorage),
+    sessionStorage: dump(window.sessionStorage),
+  };
+});
+
+// Save Storage State Tool
+export const saveStorageStateToolArguments = {
+  filePath: z.string().describe('Path of the JSON file to write the storage state to'),
+  origins: z
+    .array(z.string())
+    .optional()
+    .describe('Additional origins to capture storage from (e.g. ["https://app.example.com"]). The browser visits each and returns to the current page. The current origin is always included'),
+};
+
+export const saveStorageStateTool: ToolCallback = async ({filePath, origins = []}: {
+  filePath: string;
+  origins?: string[];
+}): Promise<CallToolResult> => {
+  try {
+    const browser = getBrowser();
+    if (browser.isMobile) {
+      return toolErrorResult('UNSUPPORTED_PLATFORM', 'Storage state is only supported in browser sessions');
+    }
+
+    const currentUrl = await browser.getUrl();
+    const state: StorageState = {
+      cookies: await browser.getCookies(),
+      origins: [],
+    };
+
+    if (isHttpUrl(currentUrl)) {
+      state.origins.push(await readWebStorage(browser));
+    }
+
+    const extraOrigins = origins
+      .map((origin) => new URL(origin).origin)
+      .filter((origin) => !state.origins.some((entry) => entry.origin === origin));
+    for (const origin of extraOrigins) {
+      const blockedReason = await checkUrlPolicy(origin);
+      if (blockedReason) {
+        return urlPolicyViolationResult(origin, blockedReason);
+      }
+    }
+
+    for (const origin of extraOrigins) {
+      await browser.url(origin);
+      state.origins.push(await readWebStorage(browser));
+      // Cookies of visited origins are only readable while on them without BiDi
+      for (const cookie of await browser.getCookies()) {
+        if (!state.cookies.some((c) => c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path)) {
+          state.cookies.push(cookie);
+        }
+      }
+    }
+
+    if (extraOrigins.length > 0 && isHttpUrl(currentUrl)) {
+      await browser.url(currentUrl);
+    }
+
+    const fs = await import('fs');
+    await fs.promises.writeFile(filePath, JSON.stringify(state, null, 2), 'utf-8');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Storage state saved to ${filePath} (${state.cookies.length} cookies, ${state.origins.length} origins: ${state.origins.map((o) => o.origin).join(', ') || 'none'})`,
+      }],
+    };
+  } catch (e) {
+    return errorResult(e, 'Error saving storage state');
+  }
+};
+
+// Load Storage State Tool
+export const loadStorageStateToolArguments = {
+  filePath: z.string().describe('Path of a JSON file previously written by save_storage_state'),
+};
+
+export const loadStorageStateTool: ToolCallback = async ({filePath}: { filePath: string }): Promise<CallToolResult> => {
+  try {
+    const browser = getBrowser();
+    if (browser.isMobile) {
+      return toolErrorResult('UNSUPPORTED_PLATFORM', 'Storage state is only supported in browser sessions');
+    }
+
+    const fs = await import('fs');
+    const state: StorageState = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    const cookies = state.cookies || [];
+    const origins = state.origins || [];
+    const currentUrl = await browser.getUrl();
+
+    for (const {origin} of origins) {
+      const blockedReason = await checkUrlPolicy(origin);
+      if (blockedReason) {
+        return urlPolicyViolationResult(origin, blockedReason);
+      }
+    }
+
+    // Web storage can only be written while the page is on the matching origin
+    for (const entry of origins) {
+      await browser.url(entry.origin);
+      await browser.execute((localEntries: Record<string, string>, sessionEntries: Record<string, string>) => {
+        for (const [key, value] of Object.entries(localEntries)) {
+          window.localStorage.setItem(key, value);
+        }
+        for (const [key, value] of Object.entries(sessionEntries)) {
+          window.sessionStorage.setItem(key, value);
+        }
+      }, entry.localStorage || {}, entry.sessionStorage || {});
+    }
+
+    // Set cookies one by one so a cookie for an unreachable domain doesn't abort the rest
+    const failedCookies: string[] = [];
+    for (const cookie of cookies) {
+      try {
+        await browser.setCookies(cookie);
+      } catch {
+        failedCookies.push(`${cookie.name} (${cookie.domain})`);
+      }
+    }
+
+    // Reload so the page picks up the restored state
+    if (isHttpUrl(currentUrl)) {
+      await browser.url(currentUrl);
+    } else if (origins.length > 0) {
+      await browser.refresh();
+    }
+
+    const failedNote = failedCookies.length > 0
+      ? `\nCould not set ${failedCookies.length} cookies: ${failedCookies.join(', ')}`
+      : '';
+    return {
+      content: [{
+        type: 'text',
+        text: `Storage state loaded from ${filePath} (${cookies.length - failedCookies.length} cookies, ${origins.length} origins)${failedNote}`,
+      }],
+    };
+  } catch (e) {
+    return errorResult(e, 'Error loading storage state');
+  }
+};
@@ -1,6 +1,9 @@
 import {getBrowser} from './browser.tool';
+import {mkdir, writeFile} from 'node:fs/promises';
+import {dirname} from 'node:path';
 import {z} from 'zod';
 import {ToolCallback} from '@modelcontextprotocol/sdk/server/mcp';
+import {errorResult} from '../utils/tool-result';
 
 export const takeScreenshotToolArguments = {
   outputPath: z.string().optional().describe('Optional path where to save the screenshot. If not provided, returns base64 data.'),
@@ -26,8 +29,24 @@ export const takeScreenshotTool: ToolCallback = async ({outputPath}: { outputPat
       };
     }
   } catch (e) {
-    return {
-      content: [{type: 'text', text: `Error taking screenshot: ${e.message}`}],
-    };
+    return errorResult(e, 'Error taking screenshot');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Screenshot of the current session for failure reports, also saved to the given path if there is one.
+ * Undefined if none could be taken.
+ */
+export async function captureScreenshot(path?: string): Promise<{ data: string; path?: string } | undefined> {
+  try {
+    const data = await getBrowser().takeScreenshot();
+    if (path) {
+      await mkdir(dirname(path), {recursive: true});
+      await writeFile(path, data, 'base64');
+    }
+    return {data, path};
+  } catch {
+    // No session, or it's in a state where screenshots fail
+    return undefined;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,177 @@
+/**
+ * HTTP transports: Streamable HTTP (`/mcp`) with a legacy SSE fallback (`/sse` + `/messages`)
+ *
+ * Every client connection gets its own McpServer instance and transport session ID,
+ * which also serves as the browser session namespace for that connection.
+ */
+
+import {randomUUID} from 'node:crypto';
+import {createServer as createHttpServer, IncomingMessage, Server, ServerResponse} from 'node:http';
+import {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {StreamableHTTPServerTransport} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {SSEServerTransport} from '@modelcontextprotocol/sdk/server/sse.js';
+import {isInitializeRequest} from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpTransportOptions {
+  port: number;
+  host?: string;
+  // Extra host names clients may use in the Host and Origin headers, "*" allows any
+  allowedHosts?: string[];
+  // Called when a client connection closes, with its transport session ID
+  onConnectionClosed?: (sessionId: string) => void;
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// JSON-RPC error code for bodies that aren't valid JSON
+const PARSE_ERROR = -32700;
+
+class ParseError extends Error {
+}
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString('utf-8');
+  try {
+    return body ? JSON.parse(body) : undefined;
+  } catch (e) {
+    throw new ParseError(`Parse error: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+const sendJsonRpcError = (res: ServerResponse, status: number, message: string, code = -32000) => {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify({jsonrpc: '2.0', error: {code, message}, id: null}));
+};
+
+const hostnameOf = (value: string): string | undefined => {
+  try {
+    return new URL(value).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Guard against DNS rebinding: web pages may only reach the server under the host it's bound to, localhost
+ * or an explicitly allowed host name. Clients outside browsers send no Origin header.
+ */
+const isAllowedRequest = (req: IncomingMessage, allowedHosts: Set<string>): boolean => {
+  if (allowedHosts.has('*')) {
+    return true;
+  }
+  const host = req.headers.host ? hostnameOf(`http://${req.headers.host}`) : undefined;
+  if (!host || !allowedHosts.has(host)) {
+    return false;
+  }
+  const origin = req.headers.origin;
+  return origin === undefined || allowedHosts.has(hostnameOf(origin) ?? '');
+};
+
+/**
+ * Start an HTTP server exposing the MCP server through Streamable HTTP and SSE
+ */
+export async function startHttpTransport(createServer: () => McpServer, options: HttpTransportOptions): Promise<Server> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const boundHost = options.host ?? '127.0.0.1';
+  const allowedHosts = new Set([
+    ...LOCAL_HOSTS,
+    // Wildcard addresses can't appear in a Host header; their interfaces' names have to be allowed explicitly
+    ...(boundHost === '0.0.0.0' || boundHost === '::' ? [] : [hostnameOf(`http://${boundHost.includes(':') ? `[${boundHost}]` : boundHost}`)]),
+    ...(options.allowedHosts ?? []).map((host) => host === '*' ? host : hostnameOf(`http://${host}`)),
+  ].filter(Boolean));
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      // New client connection
+      transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableTransports.set(id, transport);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          streamableTransports.delete(transport.sessionId);
+          options.onConnectionClosed?.(transport.sessionId);
+        }
+      };
+      await createServer().connect(transport);
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnection = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+      options.onConnectionClosed?.(transport.sessionId);
+    });
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const transport = sseTransports.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendJsonRpcError(res, 400, 'Bad Request: Unknown SSE session ID');
+      return;
+    }
+    await transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    if (!isAllowedRequest(req, allowedHosts)) {
+      sendJsonRpcError(res, 403, `Forbidden: host ${req.headers.host ?? '(none)'} or origin ${req.headers.origin ?? '(none)'} is not allowed`);
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    let handled: Promise<void>;
+    if (url.pathname === '/mcp') {
+      handled = handleStreamableRequest(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      handled = handleSseConnection(res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      handled = handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404).end('Not Found');
+      return;
+    }
+
+    handled.catch((error) => {
+      if (error instanceof ParseError) {
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 400, error.message, PARSE_ERROR);
+        }
+        return;
+      }
+      console.error('Error handling MCP HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, boundHost, () => resolve());
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,185 @@
+/**
+ * Audit log of tool calls: kept in memory per session for get_action_log, and appended as JSONL
+ * to the file configured with `auditLog.file` (or WDIO_MCP_AUDIT_LOG / --audit-log)
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types';
+import { getServerConfig } from '../config/server.config';
+import { getActiveSessionId } from '../tools/browser.tool';
+import { captureScreenshot } from '../tools/take-screenshot.tool';
+import { classifyError } from './tool-result';
+import { REDACTED, redactSecrets } from './secrets';
+
+export interface ActionLogEntry {
+  timestamp: string;
+  sessionId: string | null;
+  tool: string;
+  args: Record<string, unknown>;
+  // Time the call ran, and the time it waited for its session before that
+  durationMs: number;
+  queuedMs: number;
+  status: 'success' | 'error';
+  error?: { code: string; message: string };
+  screenshot?: string;
+}
+
+// Entries kept in memory per session
+const MAX_ENTRIES_PER_SESSION = 500;
+const MAX_STRING_LENGTH = 500;
+const SENSITIVE_KEY = /password|passwd|secret|token|authorization|api[-_]?key|credential/i;
+// References name a secret (e.g. secretRef) without revealing it
+const REFERENCE_KEY = /Ref$/;
+
+const entries = new Map<string, ActionLogEntry[]>();
+
+// Details of the running call that are only known inside the session lock
+interface CallDetails {
+  queuedMs?: number;
+  screenshot?: string;
+}
+
+const callScope = new AsyncLocalStorage<CallDetails>();
+
+/**
+ * Redact values of sensitive-looking keys and known secrets, and truncate long strings, recursively
+ */
+export const sanitizeArgs = (value: unknown, key = ''): any => {
+  if (SENSITIVE_KEY.test(key) && !REFERENCE_KEY.test(key) && value !== undefined && value !== null) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    const redacted = redactSecrets(value);
+    return redacted.length > MAX_STRING_LENGTH ? `${redacted.slice(0, MAX_STRING_LENGTH)}... (${redacted.length} chars)` : redacted;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeArgs(item));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, sanitizeArgs(item, name)]));
+  }
+  return value;
+};
+
+const remember = (entry: ActionLogEntry) => {
+  if (!entry.sessionId) {
+    return;
+  }
+  const sessionEntries = entries.get(entry.sessionId) ?? [];
+  sessionEntries.push(entry);
+  if (sessionEntries.length > MAX_ENTRIES_PER_SESSION) {
+    sessionEntries.shift();
+  }
+  entries.set(entry.sessionId, sessionEntries);
+};
+
+const writeEntry = async (file: string, entry: ActionLogEntry) => {
+  await mkdir(dirname(file), { recursive: true });
+  await appendFile(file, `${JSON.stringify(entry)}\n`, 'utf-8');
+};
+
+/**
+ * Save a screenshot of the failed call's session next to the log file. Returns its path, if one was taken.
+ */
+const captureErrorScreenshot = async (file: string, tool: string): Promise<string | undefined> => {
+  const path = join(dirname(file), 'screenshots', `${new Date().toISOString().replace(/[:.]/g, '-')}-${tool}.png`);
+  return (await captureScreenshot(path))?.path;
+};
+
+/**
+ * Record how long the running call waited for its session. Only the call's own lock counts;
+ * calls it makes into other sessions (e.g. run_steps) wait as part of its execution.
+ */
+export const recordQueueWait = (queuedMs: number) => {
+  const call = callScope.getStore();
+  if (call && call.queuedMs === undefined) {
+    call.queuedMs = queuedMs;
+  }
+};
+
+/**
+ * Wrap a tool callback so a failed call's screenshot is taken while it still holds the session lock,
+ * if auditLog.screenshotOnError is set. Goes inside withSessionLock, and withActionLog logs the path.
+ */
+export const withErrorScreenshot = (tool: string, callback: ToolCallback<any>): ToolCallback<any> =>
+  async (args: any, extra: any) => {
+    const { auditLog } = getServerConfig();
+    const call = callScope.getStore();
+    if (!call || !auditLog.file || !auditLog.screenshotOnError) {
+      return callback(args, extra);
+    }
+
+    let result: CallToolResult;
+    try {
+      result = await callback(args, extra);
+    } catch (e) {
+      call.screenshot = await captureErrorScreenshot(auditLog.file, tool);
+      throw e;
+    }
+    if (result?.isError) {
+      call.screenshot = await captureErrorScreenshot(auditLog.file, tool);
+    }
+    return result;
+  };
+
+/**
+ * Wrap a tool callback so every call is recorded with its timing and outcome
+ */
+export const withActionLog = (tool: string, callback: ToolCallback<any>): ToolCallback<any> =>
+  async (args: any, extra: any) => {
+    const sessionIdBefore = getActiveSessionId();
+    const startedAt = Date.now();
+    const call: CallDetails = {};
+
+    let result: CallToolResult;
+    let thrown: unknown;
+    try {
+      result = await callScope.run(call, () => callback(args, extra));
+    } catch (e) {
+      thrown = e;
+    }
+
+    const failed = thrown !== undefined || result?.isError === true;
+    const error = thrown !== undefined ? classifyError(thrown) : result?.structuredContent?.error as ActionLogEntry['error'];
+    const { auditLog } = getServerConfig();
+
+    const entry: ActionLogEntry = {
+      timestamp: new Date(startedAt).toISOString(),
+      // Session starting tools only know their session afterwards
+      sessionId: getActiveSessionId() ?? sessionIdBefore,
+      tool,
+      args: sanitizeArgs(args ?? {}),
+      durationMs: Date.now() - startedAt - (call.queuedMs ?? 0),
+      queuedMs: call.queuedMs ?? 0,
+      status: failed ? 'error' : 'success',
+    };
+    if (failed) {
+      entry.error = error
+        ? { code: error.code, message: redactSecrets(error.message) }
+        : { code: 'DRIVER_ERROR', message: redactSecrets(String(result?.content?.[0]?.type === 'text' ? result.content[0].text : 'Unknown error')) };
+    }
+    if (tool === 'take_screenshot' && !failed && args?.outputPath) {
+      entry.screenshot = args.outputPath;
+    } else if (call.screenshot) {
+      entry.screenshot = call.screenshot;
+    }
+
+    remember(entry);
+    if (auditLog.file) {
+      await writeEntry(auditLog.file, entry).catch((e) => console.error('Failed to write audit log:', e));
+    }
+
+    if (thrown !== undefined) {
+      throw thrown;
+    }
+    return result;
+  };
+
+/**
+ * Last `limit` entries recorded for a session, oldest first
+ */
+export const getActionLogEntries = (sessionId: string, limit: number): ActionLogEntry[] =>
+  (entries.get(sessionId) ?? []).slice(-limit);
@@ -0,0 +1,80 @@
+import { encode } from '@toon-format/toon';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types';
+import { z } from 'zod';
+import { getServerConfig, OUTPUT_FORMATS, OutputFormat } from '../config/server.config';
+
+/**
+ * `format` argument shared by all data-returning tools
+ */
+export const outputFormatArgument = {
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe('Output format: "toon" (compact), "json" or "markdown" (table). Default: server config (toon)'),
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const markdownCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+};
+
+const markdownTable = (columns: string[], rows: unknown[][]): string => [
+  `| ${columns.map(markdownCell).join(' | ')} |`,
+  `| ${columns.map(() => '---').join(' | ')} |`,
+  ...rows.map((row) => `| ${row.map(markdownCell).join(' | ')} |`),
+].join('\n');
+
+/**
+ * Render lists of objects as tables, objects as key/value tables and lists of values as bullet lists
+ */
+const toMarkdown = (data: unknown): string => {
+  if (Array.isArray(data)) {
+    if (data.length === 0) {
+      return '_(empty)_';
+    }
+    if (data.every(isPlainObject)) {
+      const columns = [...new Set(data.flatMap((row) => Object.keys(row)))];
+      return markdownTable(columns, data.map((row) => columns.map((column) => row[column])));
+    }
+    return data.map((item) => `- ${markdownCell(item)}`).join('\n');
+  }
+  if (isPlainObject(data)) {
+    return markdownTable(['Key', 'Value'], Object.entries(data));
+  }
+  return markdownCell(data);
+};
+
+/**
+ * Serialize structured tool output in the requested format, falling back to the server default.
+ * TOON is the most token-efficient; JSON and Markdown are easier to post-process and read.
+ */
+export function formatData(data: unknown, format: OutputFormat = getServerConfig().outputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(data, null, 2);
+    case 'markdown':
+      return toMarkdown(data);
+    case 'toon':
+    default:
+      return encode(data);
+  }
+}
+
+/**
+ * Build a tool result returning `data` as formatted text, plus the same data as structuredContent
+ * matching the tool's declared output schema
+ */
+export const dataResult = (
+  data: unknown,
+  structuredContent: Record<string, unknown>,
+  format?: OutputFormat,
+): CallToolResult => ({
+  content: [{ type: 'text', text: formatData(data, format) }],
+  structuredContent,
+});
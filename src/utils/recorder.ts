@@ -0,0 +1,48 @@
+/**
+ * Recording of successful mutating tool calls and checks per session, as WebdriverIO statements for export_test
+ */
+
+import { getActiveSessionId } from '../tools/browser.tool';
+
+export interface RecordedStep {
+  tool: string;
+  // Selector the tool acted on, after resolving helpers like click_via_text
+  selector?: string;
+  // WebdriverIO statements reproducing the call
+  code: string[];
+  // Step checks state (get_element_text, is_displayed) and is exported as an expect assertion
+  assertion?: boolean;
+}
+
+const MAX_STEPS_PER_SESSION = 1000;
+
+const recordings = new Map<string, RecordedStep[]>();
+
+/**
+ * Literal for generated code: single-quoted strings, JSON for everything else
+ */
+export const toLiteral = (value: unknown): string => typeof value === 'string'
+  ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`
+  : JSON.stringify(value);
+
+/**
+ * Record a step of the current session. Call only after the action succeeded.
+ */
+export const recordStep = (step: RecordedStep) => {
+  const sessionId = getActiveSessionId();
+  if (!sessionId) {
+    return;
+  }
+  const steps = recordings.get(sessionId) ?? [];
+  steps.push(step);
+  if (steps.length > MAX_STEPS_PER_SESSION) {
+    steps.shift();
+  }
+  recordings.set(sessionId, steps);
+};
+
+export const getRecordedSteps = (sessionId: string): RecordedStep[] => recordings.get(sessionId) ?? [];
+
+export const clearRecordedSteps = (sessionId: string) => {
+  recordings.delete(sessionId);
+};
@@ -0,0 +1,139 @@
+/**
+ * Server-side secrets for set_value's secretRef, and redaction of secret values from tool output and audit logs
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types';
+import { getServerConfig } from '../config/server.config';
+import { ToolError } from './tool-result';
+
+export const REDACTED = '***';
+
+// Environment variables secretRef may read without being listed in secrets.env
+export const SECRET_ENV_PREFIX = 'WDIO_MCP_SECRET_';
+
+// Shorter values would redact unrelated text all over the output
+const MIN_REDACTED_LENGTH = 4;
+
+// Values typed from secrets or into password fields
+const secretValues = new Set<string>();
+
+/**
+ * Parse a .env-style file: KEY=value lines, optional `export`, quotes and # comments
+ */
+const parseSecretsFile = (content: string): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+    if (!match) {
+      continue;
+    }
+    const [, key, rawValue] = match;
+    const quoted = rawValue.match(/^(['"])(.*)\1$/);
+    entries[key] = quoted ? quoted[2] : rawValue.replace(/\s+#.*$/, '');
+  }
+  return entries;
+};
+
+const readSecretsFile = async (): Promise<Record<string, string>> => {
+  const { file } = getServerConfig().secrets;
+  if (!file) {
+    return {};
+  }
+  return parseSecretsFile(await readFile(resolve(file), 'utf-8'));
+};
+
+/**
+ * Environment variables are only readable if they start with WDIO_MCP_SECRET_ or are listed in secrets.env,
+ * so a secretRef can't type unrelated server environment (e.g. cloud credentials) into a page
+ */
+const readSecretEnv = (name: string): string | undefined =>
+  name.startsWith(SECRET_ENV_PREFIX) || getServerConfig().secrets.env.includes(name) ? process.env[name] : undefined;
+
+const lookupSecret = async (secretRef: string): Promise<string | undefined> => {
+  const [, source, name] = secretRef.match(/^(?:(env|file):)?(.+)$/);
+  const fromFile = source !== 'env' ? (await readSecretsFile())[name] : undefined;
+  return fromFile ?? (source !== 'file' ? readSecretEnv(name) : undefined);
+};
+
+/**
+ * Resolve a secret reference: "env:NAME" reads an environment variable, "file:NAME" an entry of the secrets file,
+ * and a plain "NAME" the secrets file entry if there is one, else the environment variable.
+ * The resolved value is redacted from all further tool output.
+ */
+export async function resolveSecret(secretRef: string): Promise<string> {
+  const value = await lookupSecret(secretRef);
+  if (value === undefined) {
+    throw new ToolError(
+      'INVALID_ARGUMENT',
+      `Secret "${secretRef}" is not defined on the server`,
+      `Ask the user to add it to the secrets file (secrets.file), or to set a ${SECRET_ENV_PREFIX}* environment variable (or one listed in secrets.env), and restart the server.`,
+    );
+  }
+  registerSecretValue(value);
+  return value;
+}
+
+/**
+ * Check whether a secret reference resolves, without registering its value.
+ * An unreadable secrets file counts as the secret missing.
+ */
+export async function hasSecret(secretRef: string): Promise<boolean> {
+  try {
+    return await lookupSecret(secretRef) !== undefined;
+  } catch (e) {
+    console.error(`Failed to read the secrets file for "${secretRef}":`, e);
+    return false;
+  }
+}
+
+/**
+ * Redact a value from all further tool output and audit log entries
+ */
+export const registerSecretValue = (value: string) => {
+  if (value.length >= MIN_REDACTED_LENGTH) {
+    secretValues.add(value);
+  }
+};
+
+/**
+ * Replace every known secret value in a string
+ */
+export const redactSecrets = (text: string): string => {
+  let redacted = text;
+  for (const value of secretValues) {
+    redacted = redacted.split(value).join(REDACTED);
+  }
+  return redacted;
+};
+
+const redactDeep = (value: unknown): any => {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactDeep);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactDeep(item)]));
+  }
+  return value;
+};
+
+/**
+ * Wrap a tool callback so known secret values never appear in its text or structured output
+ */
+export const withSecretRedaction = (callback: ToolCallback<any>): ToolCallback<any> => async (args: any, extra: any) => {
+  const result: CallToolResult = await callback(args, extra);
+  if (secretValues.size === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    // Images and other binary content carry no text to redact
+    content: result.content?.map((item) => item.type === 'text' ? { ...item, text: redactSecrets(item.text) } : item),
+    structuredContent: redactDeep(result.structuredContent),
+  };
+};
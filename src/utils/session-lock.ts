@@ -0,0 +1,104 @@
+/**
+ * Per-session mutex so parallel tool calls and resource reads never drive the same WebDriver session at the same time
+ */
+
+import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
+import { getServerConfig } from '../config/server.config';
+import { getActiveSessionId } from '../tools/browser.tool';
+import { errorResult, ToolError } from './tool-result';
+import { recordQueueWait } from './action-log';
+
+interface SessionQueue {
+  running: boolean;
+  // Grants of the calls waiting for the session, in arrival order
+  waiters: Array<() => void>;
+}
+
+const queues = new Map<string, SessionQueue>();
+
+const getQueue = (sessionId: string): SessionQueue => {
+  const queue = queues.get(sessionId) ?? { running: false, waiters: [] };
+  queues.set(sessionId, queue);
+  return queue;
+};
+
+/**
+ * Release function handing the session to the next waiting call
+ */
+const releaseFor = (sessionId: string, queue: SessionQueue) => () => {
+  const next = queue.waiters.shift();
+  if (next) {
+    next();
+  } else {
+    queue.running = false;
+    queues.delete(sessionId);
+  }
+};
+
+/**
+ * Hold the session if it's free right now. Returns the release function, or undefined if it's busy.
+ */
+export const tryAcquireSessionLock = (sessionId: string): (() => void) | undefined => {
+  const queue = getQueue(sessionId);
+  if (queue.running) {
+    return undefined;
+  }
+  queue.running = true;
+  return releaseFor(sessionId, queue);
+};
+
+/**
+ * Wait until the session is free, then hold it until the returned release function is called.
+ * Rejects with a TIMEOUT error when the session stays busy for longer than `timeout` ms.
+ */
+export const acquireSessionLock = (sessionId: string, timeout: number): Promise<() => void> => new Promise((resolve, reject) => {
+  const queue = getQueue(sessionId);
+  const release = releaseFor(sessionId, queue);
+
+  if (!queue.running) {
+    queue.running = true;
+    resolve(release);
+    return;
+  }
+
+  const grant = () => {
+    clearTimeout(timer);
+    resolve(release);
+  };
+  const timer = setTimeout(() => {
+    queue.waiters.splice(queue.waiters.indexOf(grant), 1);
+    reject(new ToolError(
+      'TIMEOUT',
+      `Session ${sessionId} is busy with another tool call; gave up after waiting ${timeout}ms`,
+      'Retry once the running call has finished, or raise timeouts.queue in the server config.',
+    ));
+  }, timeout);
+  queue.waiters.push(grant);
+});
+
+/**
+ * Wrap a session tool's callback so calls against the same session run one at a time, in arrival order.
+ * Only for tools that act on one session: others (e.g. start_browser) must not wait for the current one.
+ */
+export const withSessionLock = (callback: ToolCallback<any>): ToolCallback<any> => async (args: any, extra: any) => {
+  const sessionId = getActiveSessionId();
+  if (!sessionId) {
+    return callback(args, extra);
+  }
+
+  let release: () => void;
+  const queuedAt = Date.now();
+  try {
+    release = await acquireSessionLock(sessionId, getServerConfig().timeouts.queue);
+  } catch (e) {
+    return errorResult(e, 'Error waiting for session');
+  } finally {
+    recordQueueWait(Date.now() - queuedAt);
+  }
+
+  try {
+    return await callback(args, extra);
+  } finally {
+    release();
+  }
+};
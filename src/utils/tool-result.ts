@@ -0,0 +1,97 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types';
+import { z } from 'zod';
+
+/**
+ * Machine-readable classification of tool failures
+ */
+export type ToolErrorCode =
+  | 'NO_SESSION'
+  | 'ELEMENT_NOT_FOUND'
+  | 'TIMEOUT'
+  | 'STALE_ELEMENT'
+  | 'NOT_INTERACTABLE'
+  | 'UNSUPPORTED_PLATFORM'
+  | 'INVALID_ARGUMENT'
+  | 'POLICY_VIOLATION'
+  | 'DRIVER_ERROR';
+
+const REMEDIATION_HINTS: Record<ToolErrorCode, string> = {
+  NO_SESSION: 'Start a session with start_browser or start_app_session, or use list_sessions and switch_session to pick an active one.',
+  ELEMENT_NOT_FOUND: 'Call get_visible_elements to find a valid selector for the element.',
+  TIMEOUT: 'Retry with a larger timeout, or check the current screen with get_visible_elements.',
+  STALE_ELEMENT: 'The page changed after the element was found. Retry the action.',
+  NOT_INTERACTABLE: 'The element is hidden, disabled or covered. Scroll it into view, close overlays or wait until it is enabled.',
+  UNSUPPORTED_PLATFORM: 'This action is not available for the current session type. Check it with list_sessions.',
+  INVALID_ARGUMENT: 'Check the tool arguments and try again.',
+  POLICY_VIOLATION: 'The server URL policy does not allow this URL. Use an allowed URL, or ask the server operator to change urlPolicy.',
+  DRIVER_ERROR: 'Check that the browser driver or Appium server is running and the session is still alive.',
+};
+
+/**
+ * Error with a known classification, thrown or returned by tools for failures they detect themselves
+ */
+export class ToolError extends Error {
+  constructor(readonly code: ToolErrorCode, message: string, readonly hint?: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+// Checked in order: the first matching pattern wins
+const ERROR_PATTERNS: [ToolErrorCode, RegExp][] = [
+  ['NO_SESSION', /invalid session id|no active (browser )?session|session .* not found|session (is )?deleted/i],
+  ['STALE_ELEMENT', /stale element/i],
+  ['ELEMENT_NOT_FOUND', /no such element|element not found|still not existing|couldn't find element|unable to locate/i],
+  ['NOT_INTERACTABLE', /not interactable|click intercepted|not clickable|invalid element state|element is disabled/i],
+  ['TIMEOUT', /timed? ?out|timeout/i],
+  ['UNSUPPORTED_PLATFORM', /unknown command|unsupported operation|not (yet )?implemented|not supported|only (available|supported) (on|in)/i],
+];
+
+/**
+ * Classify any error thrown by WebdriverIO, Appium or the tools themselves
+ */
+export function classifyError(error: unknown): { code: ToolErrorCode; message: string; hint: string } {
+  if (error instanceof ToolError) {
+    return { code: error.code, message: error.message, hint: error.hint ?? REMEDIATION_HINTS[error.code] };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  // WebDriver protocol errors carry the W3C error code (e.g. "no such element") as their name
+  const haystack = `${error instanceof Error ? error.name : ''} ${message}`;
+  const code = ERROR_PATTERNS.find(([, pattern]) => pattern.test(haystack))?.[0] ?? 'DRIVER_ERROR';
+  return { code, message, hint: REMEDIATION_HINTS[code] };
+}
+
+/**
+ * Output schema field carrying the error of failed calls. Tools with an output schema include it,
+ * as their error results must validate against that schema too.
+ */
+export const errorOutput = {
+  error: z
+    .object({
+      code: z.string(),
+      message: z.string(),
+      hint: z.string(),
+    })
+    .optional()
+    .describe('Set when the call failed'),
+};
+
+/**
+ * Build a failed tool result with `isError` set, the error code and a remediation hint.
+ * The context describes what failed, e.g. "Error clicking element".
+ */
+export function errorResult(error: unknown, context = 'Error'): CallToolResult {
+  const { code, message, hint } = classifyError(error);
+  return {
+    content: [{ type: 'text', text: `${context}: ${message}\nCode: ${code}\nHint: ${hint}` }],
+    structuredContent: { error: { code, message, hint } },
+    isError: true,
+  };
+}
+
+/**
+ * Shorthand for failures a tool detects itself, e.g. invalid argument combinations
+ */
+export const toolErrorResult = (code: ToolErrorCode, message: string, hint?: string): CallToolResult =>
+  errorResult(new ToolError(code, message, hint));
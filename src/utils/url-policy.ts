@@ -0,0 +1,271 @@
+/**
+ * URL policy for shared deployments: allowed origins and globs, denied ones, blocked schemes and
+ * optional private network blocking, configured with `urlPolicy` in the server config
+ */
+
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types';
+import { getServerConfig } from '../config/server.config';
+import { getActiveSessionId, getBrowser } from '../tools/browser.tool';
+import { toolErrorResult } from './tool-result';
+
+// Schemes of URLs that reach a host, and so can be checked for private network addresses
+const NETWORK_SCHEMES = ['http', 'https', 'ws', 'wss'];
+
+// Blank page, which stays allowed whatever the allow list says
+const BLANK_PAGE = 'about:blank';
+
+const privateNetworks = new BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+] as const) {
+  privateNetworks.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  privateNetworks.addSubnet(address, prefix, 'ipv6');
+}
+
+interface NavigationViolation {
+  url: string;
+  reason: string;
+}
+
+// Blocked navigations observed through BiDi, reported by the next tool call of their session
+const violations = new Map<string, NavigationViolation>();
+const watchedSessions = new Set<string>();
+
+// Headers set_extra_headers adds while the policy intercepts a session's requests, applied when continuing them
+const requestHeaders = new Map<string, { headers: Record<string, string>; urlPattern: string }>();
+
+export const isUrlPolicyEnabled = (): boolean => {
+  const { allow, deny, blockedSchemes, blockPrivateNetworks } = getServerConfig().urlPolicy;
+  return allow.length > 0 || deny.length > 0 || blockedSchemes.length > 0 || blockPrivateNetworks;
+};
+
+const normalizeScheme = (scheme: string) => scheme.trim().toLowerCase().replace(/:(\/\/)?$/, '');
+
+/**
+ * Glob to RegExp: `**` matches anything, `*` matches anything but the given separator
+ */
+const globToRegExp = (glob: string, separator: string): RegExp => {
+  const source = glob
+    .split('**')
+    .map((part) => part
+      .split('*')
+      .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join(separator ? `[^${separator}]*` : '.*'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * Match a URL against an allow/deny pattern:
+ * - an origin ("https://example.com", "https://*.example.com") matches every URL of that origin
+ * - a URL glob ("https://example.com/admin/**") matches the full URL, `*` stays within one path segment
+ * - a bare host ("example.com", "*.example.com") matches the hostname
+ */
+const matchesPattern = (url: URL, pattern: string): boolean => {
+  if (!pattern.includes('://')) {
+    return globToRegExp(pattern, '').test(url.hostname);
+  }
+  if (/^[a-z][a-z\d+.-]*:\/\/[^/]*\/?$/i.test(pattern)) {
+    return globToRegExp(pattern.replace(/\/$/, ''), '/').test(url.origin);
+  }
+  return globToRegExp(pattern, '/').test(url.href);
+};
+
+/**
+ * Addresses of a host, or undefined if it doesn't resolve here
+ */
+const resolveAddresses = async (hostname: string): Promise<string[] | undefined> => {
+  const host = hostname.replace(/^\[|]$/g, '');
+  if (isIP(host)) {
+    return [host];
+  }
+  try {
+    return (await lookup(host, { all: true })).map(({ address }) => address);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Check a URL against the configured policy. Resolves to the reason it's blocked, or undefined if it's allowed.
+ */
+export async function checkUrlPolicy(rawUrl: string): Promise<string | undefined> {
+  if (!isUrlPolicyEnabled()) {
+    return undefined;
+  }
+  const { allow, deny, blockedSchemes, blockPrivateNetworks } = getServerConfig().urlPolicy;
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return 'it is not an absolute URL';
+  }
+  // "localhost." and "example.com." are the same hosts to the browser, so match them without the trailing dot
+  if (url.hostname.endsWith('.')) {
+    url.hostname = url.hostname.replace(/\.+$/, '');
+  }
+
+  const scheme = normalizeScheme(url.protocol);
+  if (blockedSchemes.some((blocked) => normalizeScheme(blocked) === scheme)) {
+    return `the "${scheme}" scheme is blocked`;
+  }
+
+  const denied = deny.find((pattern) => matchesPattern(url, pattern));
+  if (denied) {
+    return `it matches the deny list entry "${denied}"`;
+  }
+
+  // Applies to every scheme, so file:, data: or javascript: URLs need an allow list entry of their own
+  if (allow.length > 0 && url.href !== BLANK_PAGE && !allow.some((pattern) => matchesPattern(url, pattern))) {
+    return `${url.origin !== 'null' ? url.origin : url.href} is not in the allow list`;
+  }
+
+  if (blockPrivateNetworks && NETWORK_SCHEMES.includes(scheme)) {
+    if (/^localhost$|\.localhost$/i.test(url.hostname)) {
+      return `${url.hostname} is a private network address`;
+    }
+    const addresses = await resolveAddresses(url.hostname);
+    if (!addresses) {
+      // The browser may still reach it, e.g. through its own resolver or a proxy
+      return `${url.hostname} cannot be resolved to check for private network addresses`;
+    }
+    const privateAddress = addresses
+      .find((address) => privateNetworks.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'));
+    if (privateAddress) {
+      return `${url.hostname} resolves to the private network address ${privateAddress}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Failed tool result for a URL blocked by the policy
+ */
+export const urlPolicyViolationResult = (url: string, reason: string): CallToolResult => toolErrorResult(
+  'POLICY_VIOLATION',
+  `Navigation to ${url} was blocked by the URL policy: ${reason}`,
+);
+
+/**
+ * Headers to continue a request with: the original ones plus the session's extra headers, if its URL matches
+ */
+const getContinueHeaders = (sessionId: string, url: string, original: Array<{ name: string; value: { type: 'string' | 'base64'; value: string } }>) => {
+  const override = requestHeaders.get(sessionId);
+  if (!override || !globToRegExp(override.urlPattern, '/').test(url)) {
+    return undefined;
+  }
+  const names = Object.keys(override.headers).map((name) => name.toLowerCase());
+  return [
+    ...original.filter((header) => !names.includes(header.name.toLowerCase())),
+    ...Object.entries(override.headers).map(([name, value]) => ({ name, value: { type: 'string' as const, value } })),
+  ];
+};
+
+/**
+ * Intercept the top-level and frame navigations of a BiDi session (redirects, links, scripts) and fail
+ * the requests of blocked ones before they are sent. Classic sessions can only be checked in navigate.
+ */
+const watchNavigations = async (sessionId: string) => {
+  if (watchedSessions.has(sessionId)) {
+    return;
+  }
+  watchedSessions.add(sessionId);
+
+  const browser = getBrowser();
+  if (!browser.isBidi) {
+    return;
+  }
+
+  await browser.sessionSubscribe({ events: ['network.beforeRequestSent'] });
+  const { intercept } = await browser.networkAddIntercept({ phases: ['beforeRequestSent'] });
+  browser.on('network.beforeRequestSent', (params) => {
+    const { navigation, request } = params;
+    if (!params.isBlocked || !params.intercepts?.includes(intercept)) {
+      return;
+    }
+    // Requests also paused by other intercepts are continued by their handler
+    const shared = params.intercepts.length > 1;
+
+    // Subresources are continued right away; the policy applies to navigations
+    const check = navigation ? checkUrlPolicy(request.url) : Promise.resolve(undefined);
+    check
+      .then(async (reason) => {
+        if (reason) {
+          violations.set(sessionId, { url: request.url, reason });
+          await browser.networkFailRequest({ request: request.request }).catch(async () => {
+            // Another intercept's handler continued it first, so leave the page instead
+            if (params.context) {
+              await browser.browsingContextNavigate({ context: params.context, url: BLANK_PAGE });
+            }
+          });
+        } else if (!shared) {
+          const headers = getContinueHeaders(sessionId, request.url, request.headers);
+          await browser.networkContinueRequest({ request: request.request, ...(headers && { headers }) });
+        }
+      })
+      .catch((e) => console.error(`Failed to apply the URL policy to ${request.url}:`, e));
+  });
+};
+
+/**
+ * Add headers to the requests of a BiDi session matching urlPattern, or remove them (undefined), through the policy's
+ * own intercept. A second intercept would continue blocked navigations before the policy decides on them.
+ */
+export async function setPolicyRequestHeaders(sessionId: string, headers: Record<string, string> | undefined, urlPattern = '**') {
+  if (!headers) {
+    requestHeaders.delete(sessionId);
+    return;
+  }
+  await watchNavigations(sessionId);
+  requestHeaders.set(sessionId, { headers, urlPattern });
+}
+
+/**
+ * Wrap a tool callback so blocked navigations observed during (or since) the call fail it with a POLICY_VIOLATION error
+ */
+export const withUrlPolicy = (callback: ToolCallback<any>): ToolCallback<any> => async (args: any, extra: any) => {
+  const result: CallToolResult = await callback(args, extra);
+  // Session starting tools only know their session afterwards
+  const sessionId = getActiveSessionId();
+  if (!sessionId || !isUrlPolicyEnabled()) {
+    return result;
+  }
+
+  try {
+    await watchNavigations(sessionId);
+  } catch (e) {
+    console.error(`Failed to watch navigations of session ${sessionId}:`, e);
+  }
+
+  const violation = violations.get(sessionId);
+  if (!violation) {
+    return result;
+  }
+  violations.delete(sessionId);
+  // Keep what the call produced (step reports, screenshots) and fail it with the violation
+  const { content, structuredContent } = urlPolicyViolationResult(violation.url, violation.reason);
+  return {
+    ...result,
+    content: [...(result?.content ?? []), ...content],
+    structuredContent: { ...result?.structuredContent, error: structuredContent?.error },
+    isError: true,
+  };
+};